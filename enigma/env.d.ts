@@ -1,12 +1,22 @@
 /// <reference types="vite/client" />
 
+import type { EnigmaApi, LogViewerApi } from './shared/ipcBridge';
+
 export {};
 
 declare global {
   interface Window {
-    api: {
-      /** Call a main-process handler. Payload is unknown; return type is generic. */
-      call<TRes = unknown>(channel: string, payload?: unknown): Promise<TRes>;
-    };
+    /** Exposed by main/preload.ts; typed from the shared IPC contract. */
+    api: EnigmaApi;
+    /** Exposed by main/logViewerPreload.ts, in the log viewer window only. */
+    logViewer: LogViewerApi;
   }
 }
+
+/**
+ * TS shim for vite-plugin-electron's simple reloader.
+ * Some versions don’t ship subpath type declarations, so we declare a minimal shape.
+ */
+declare module 'vite-plugin-electron/simple-reloader' {
+  export function simpleReloader(): any;
+}
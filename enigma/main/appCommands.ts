@@ -0,0 +1,177 @@
+// main/appCommands.ts
+import { app, shell } from "electron";
+import { acceleratorProblem } from "../shared/accelerators";
+import { ConsoleMirror } from "../shared/consoleMirror";
+import { Events, SetKeybindingRes } from "../shared/ipcChannels";
+import { Logger } from "../shared/logger";
+import type { LoadedConfig } from "./appConfig";
+import { CommandContext, commands } from "./commands";
+import { createDiagnosticBundle } from "./diagnostics";
+import { broadcast, emitTo, onEvent } from "./ipcEvents";
+import { reservedAcceleratorOwner } from "./menu";
+import { profiles } from "./profileService";
+import { exportSettings, importSettings, resetSettings } from "./settingsTransfer";
+import { updates } from "./updateService";
+import { WindowManager } from "./windowManager";
+
+const log = Logger.get("app-commands");
+
+/** Register every built-in command and keep keybindings in step with settings. */
+export function registerAppCommands(windows: WindowManager, config: LoadedConfig): void {
+  const settings = () => profiles.settings();
+
+  commands.register(
+    {
+      id: "app.settings",
+      title: "Settings…",
+      category: "File",
+      accelerator: "CmdOrCtrl+,",
+      run: () => windows.open("settings"),
+    },
+    {
+      id: "settings.export",
+      title: "Export Settings…",
+      category: "Settings",
+      run: ({ win }) => exportSettings(settings(), win),
+    },
+    {
+      id: "settings.import",
+      title: "Import Settings…",
+      category: "Settings",
+      run: ({ win }) => importSettings(settings(), win),
+    },
+    {
+      id: "settings.reset",
+      title: "Reset Settings to Defaults…",
+      category: "Settings",
+      run: ({ win }) => resetSettings(settings(), win),
+    },
+    {
+      id: "view.commandPalette",
+      title: "Command Palette…",
+      category: "View",
+      accelerator: "CmdOrCtrl+Shift+P",
+      hideInPalette: true,
+      enabled: ({ win }) => !!win,
+      run: ({ win }) => win && emitTo(win, Events.OpenCommandPalette, {}),
+    },
+    {
+      id: "view.logViewer",
+      title: "Open Log Viewer",
+      category: "View",
+      accelerator: "CmdOrCtrl+L",
+      // Brings the frontmost viewer forward; files opened from outside get their own.
+      run: () => {
+        const viewer = windows.ofKind("logs").at(-1);
+        if (!viewer) return void windows.open("logs");
+        if (viewer.isMinimized()) viewer.restore();
+        viewer.focus();
+      },
+    },
+    {
+      id: "view.mirrorConsole",
+      title: "Mirror Console Output",
+      category: "View",
+      accelerator: "CmdOrCtrl+Shift+L",
+      checked: () => ConsoleMirror.isEnabled(),
+      run: () => ConsoleMirror.toggle(!ConsoleMirror.isEnabled(), "renderer-console"),
+    },
+    {
+      id: "view.effectiveConfig",
+      title: "Show Effective Config",
+      category: "View",
+      run: () => windows.open("config"),
+    },
+    {
+      id: "help.openLogsFolder",
+      title: "Open Logs Folder",
+      category: "Help",
+      run: async () => {
+        const dir = app.getPath("logs");
+        log.info("Opening logs folder:", dir);
+        await shell.openPath(dir);
+      },
+    },
+    {
+      id: "help.reportProblem",
+      title: "Report a Problem…",
+      category: "Help",
+      run: ({ win }) => createDiagnosticBundle({ windows, config }, win),
+    },
+    {
+      id: "help.learnMore",
+      title: "Learn More",
+      category: "Help",
+      run: () => shell.openExternal("https://www.electronjs.org"),
+    },
+    {
+      id: "help.checkForUpdates",
+      title: "Check for Updates…",
+      category: "Help",
+      run: ({ win }) => updates.checkInteractive(win),
+    },
+    {
+      id: "help.about",
+      title: `About ${app.name}`,
+      category: "Help",
+      run: () => windows.open("about"),
+    }
+  );
+
+  applyKeybindings(settings().get().keybindings);
+  // Covers rebinding, import/reset and profile switches alike.
+  onEvent(Events.SettingsChanged, ({ settings: next }) => applyKeybindings(next.keybindings));
+}
+
+/** Why `accelerator` can't be bound to a command, or null when it can. */
+function keybindingProblem(accelerator: string): string | null {
+  const problem = acceleratorProblem(accelerator);
+  if (problem) return problem;
+  const owner = reservedAcceleratorOwner(accelerator);
+  return owner ? `${accelerator} is reserved for “${owner}”` : null;
+}
+
+/** Install stored keybindings, skipping any that are invalid (hand-edited or imported). */
+function applyKeybindings(keybindings: Record<string, string>) {
+  const valid: Record<string, string> = {};
+  for (const [id, accelerator] of Object.entries(keybindings)) {
+    const problem = accelerator ? keybindingProblem(accelerator) : null;
+    if (problem) log.warn(`Ignoring keybinding for ${id}: ${problem}`);
+    else valid[id] = accelerator;
+  }
+  commands.setOverrides(valid);
+}
+
+/**
+ * Rebind `id` to `accelerator` ("" unbinds, null restores the default),
+ * refusing keys another command already uses. Throws for accelerators that
+ * aren't valid, lack a modifier or belong to a built-in menu item.
+ */
+export function setKeybinding(
+  id: string,
+  accelerator: string | null,
+  ctx: CommandContext
+): SetKeybindingRes {
+  const command = commands.get(id);
+  if (!command) throw new Error(`Unknown command: ${id}`);
+
+  const wanted = accelerator === null ? command.accelerator : accelerator;
+  const problem = accelerator ? keybindingProblem(accelerator) : null;
+  if (problem) throw new Error(problem);
+  const clash = wanted ? commands.commandFor(wanted, id) : undefined;
+  if (clash) {
+    const owner = commands.get(clash)!;
+    log.info(`Keybinding ${wanted} for ${id} conflicts with ${clash}`);
+    return { applied: false, conflict: { id: owner.id, title: owner.title }, commands: commands.info(ctx) };
+  }
+
+  const service = profiles.settings();
+  const keybindings = { ...service.get().keybindings };
+  if (accelerator === null || accelerator === command.accelerator) delete keybindings[id];
+  else keybindings[id] = accelerator;
+
+  const saved = service.save({ keybindings });
+  log.info(`Keybinding for ${id} set to`, accelerator === null ? "(default)" : accelerator || "(none)");
+  broadcast(Events.SettingsChanged, { settings: saved, sourceWindowId: ctx.win?.id });
+  return { applied: true, conflict: null, commands: commands.info(ctx) };
+}
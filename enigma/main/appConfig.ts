@@ -0,0 +1,86 @@
+// main/appConfig.ts
+import { app } from "electron";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import {
+  argvLayer,
+  configValue,
+  CONFIG_KEYS,
+  ConfigKey,
+  ConfigLayer,
+  defaultsLayer,
+  envLayer,
+  fileLayer,
+  resolveConfig,
+  ResolvedConfig,
+} from "../shared/config";
+import type { EffectiveConfigRes } from "../shared/ipcChannels";
+
+const CONFIG_FILE = "config.json";
+
+export interface ConfigFileStatus {
+  path: string;
+  status: "loaded" | "missing" | "error";
+  error?: string;
+}
+
+export interface LoadedConfig extends ResolvedConfig {
+  /** Config files looked for, in precedence order (later wins). */
+  files: ConfigFileStatus[];
+}
+
+/**
+ * Candidate config files: next to the executable (machine-wide, e.g. set
+ * by an installer), then in userData (per user, so it wins).
+ */
+function configFilePaths() {
+  return [join(dirname(app.getPath("exe")), CONFIG_FILE), join(app.getPath("userData"), CONFIG_FILE)];
+}
+
+function readConfigFile(path: string): { layer?: ConfigLayer; status: ConfigFileStatus } {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") return { status: { path, status: "missing" } };
+    return { status: { path, status: "error", error: (err as Error).message } };
+  }
+  try {
+    return { layer: fileLayer(path, JSON.parse(text)), status: { path, status: "loaded" } };
+  } catch (err) {
+    return { status: { path, status: "error", error: `Invalid JSON: ${(err as Error).message}` } };
+  }
+}
+
+/**
+ * Resolve `AppConfig` from built-in defaults, then config files, then
+ * command-line flags, then environment variables. Runs before logging is
+ * configured, so problems are returned as `warnings` for the caller to log.
+ */
+export function loadConfig(): LoadedConfig {
+  const files = configFilePaths().map(readConfigFile);
+  const resolved = resolveConfig([
+    defaultsLayer(),
+    ...files.flatMap((f) => (f.layer ? [f.layer] : [])),
+    argvLayer(process.argv.slice(1)),
+    envLayer(process.env),
+  ]);
+
+  const fileErrors = files.flatMap(({ status }) => (status.error ? [`${status.path}: ${status.error}`] : []));
+  return {
+    ...resolved,
+    warnings: [...fileErrors, ...resolved.warnings],
+    files: files.map((f) => f.status),
+  };
+}
+
+/** Flat key/value/source rows for the effective config view and the startup log. */
+export function describeConfig({ config, sources, files, warnings }: LoadedConfig): EffectiveConfigRes {
+  const entries = (Object.keys(CONFIG_KEYS) as ConfigKey[]).map((key) => ({
+    key,
+    value: configValue(config, key),
+    source: sources[key],
+  }));
+  return { entries, files, warnings };
+}
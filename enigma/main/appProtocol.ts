@@ -0,0 +1,110 @@
+// main/appProtocol.ts
+import { protocol } from "electron";
+import { readFile, stat } from "node:fs/promises";
+import { extname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { securityHeaders } from "../shared/contentSecurity";
+import { Logger } from "../shared/logger";
+
+const log = Logger.get("app-protocol");
+
+export const APP_SCHEME = "app";
+/** Every page shares this origin (app://enigma), so storage and fetch behave like a site's. */
+const APP_HOST = "enigma";
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".wasm": "application/wasm",
+};
+
+/**
+ * Mark app:// as a standard, secure scheme so pages get a real origin with
+ * fetch, CORS and storage. Must run before the app is ready.
+ */
+export function registerAppScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: APP_SCHEME,
+      privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true, stream: true },
+    },
+  ]);
+}
+
+/** URL of a file under the served root, e.g. `appUrl("settings/index.html", { field: "theme" })`. */
+export function appUrl(path: string, query: Record<string, string> = {}): string {
+  const url = new URL(path, `${APP_SCHEME}://${APP_HOST}/`);
+  for (const [key, value] of Object.entries(query)) url.searchParams.set(key, value);
+  return url.toString();
+}
+
+function respond(status: number, text: string, page?: string): Response {
+  return new Response(text, {
+    status,
+    headers: { "Content-Type": "text/plain; charset=utf-8", ...securityHeaders(page) },
+  });
+}
+
+/**
+ * Serve files under `root` (the Vite `dist/` folder) as app://enigma/...,
+ * with CSP and security headers from shared/contentSecurity.ts. Requests
+ * resolving outside `root` are refused. Call once the app is ready.
+ */
+export function serveAppProtocol(root: string): void {
+  const base = resolve(root);
+
+  protocol.handle(APP_SCHEME, async (request) => {
+    const url = new URL(request.url);
+    if (url.host !== APP_HOST) return respond(404, "Not found");
+    if (request.method !== "GET" && request.method !== "HEAD") return respond(405, "Method not allowed");
+
+    let path: string;
+    try {
+      path = decodeURIComponent(url.pathname);
+    } catch {
+      return respond(400, "Bad request");
+    }
+    // Decoding can reintroduce "..", "\" or NUL that URL parsing had no chance to normalize.
+    let file = resolve(base, `.${path}`);
+    const rel = relative(base, file);
+    if (path.includes("\0") || rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      log.warn("Refused request outside the app root:", request.url);
+      return respond(403, "Forbidden");
+    }
+
+    // The renderer entry a file belongs to picks its page policy (see PAGE_POLICY).
+    const page = rel.split(/[\\/]/)[0] || undefined;
+    try {
+      if ((await stat(file)).isDirectory()) file = join(file, "index.html");
+      const body = await readFile(file);
+      return new Response(request.method === "HEAD" ? null : new Uint8Array(body), {
+        status: 200,
+        headers: {
+          "Content-Type": MIME_TYPES[extname(file).toLowerCase()] ?? "application/octet-stream",
+          "Content-Length": String(body.length),
+          ...securityHeaders(page),
+        },
+      });
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code === "ENOENT" || code === "ENOTDIR" || code === "EISDIR") return respond(404, "Not found", page);
+      log.error("Failed to serve", request.url, err);
+      return respond(500, "Internal error", page);
+    }
+  });
+  log.info(`Serving ${APP_SCHEME}://${APP_HOST}/ from`, base);
+}
@@ -0,0 +1,12 @@
+// main/atomicWrite.ts
+import { renameSync, writeFileSync } from "node:fs";
+
+/**
+ * Write JSON via a temp file and rename, so readers (and the next launch
+ * after a crash) see either the old file or the new one, never half of it.
+ */
+export function writeJsonAtomic(path: string, data: unknown): void {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2));
+  renameSync(tmp, path);
+}
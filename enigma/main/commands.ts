@@ -0,0 +1,170 @@
+// main/commands.ts
+import { BrowserWindow } from "electron";
+import { normalizeAccelerator } from "../shared/accelerators";
+import type { CommandInfo } from "../shared/ipcChannels";
+import { Logger } from "../shared/logger";
+
+const log = Logger.get("commands");
+
+/** How many recently run commands `recent()` remembers. */
+const MAX_RECENT = 5;
+
+export interface CommandContext {
+  /** Window the command was invoked from (focused window for menu/shortcut). */
+  win: BrowserWindow | null;
+}
+
+export interface Command {
+  /** Stable id, e.g. "view.logViewer"; keybindings are stored against it. */
+  id: string;
+  title: string;
+  /** Groups commands in the palette ("File", "View", ...). */
+  category: string;
+  /** Default Electron accelerator; users may rebind or unbind it. */
+  accelerator?: string;
+  enabled?: (ctx: CommandContext) => boolean;
+  /** Present for toggles; shown as a checkbox in the menu. */
+  checked?: (ctx: CommandContext) => boolean;
+  /** Leave out of the command palette (e.g. the palette itself). */
+  hideInPalette?: boolean;
+  run: (ctx: CommandContext) => unknown;
+}
+
+export interface KeybindingConflict {
+  accelerator: string;
+  ids: string[];
+}
+
+/**
+ * Central list of user-invokable commands. The application menu, keyboard
+ * shortcuts and the renderer command palette all go through it.
+ */
+export class CommandRegistry {
+  private commands = new Map<string, Command>();
+  /** User overrides from settings: id -> accelerator ("" = unbound). */
+  private overrides: Record<string, string> = {};
+  private listeners = new Set<() => void>();
+  /** Most recently run first. */
+  private recentIds: string[] = [];
+
+  register(...commands: Command[]): void {
+    for (const command of commands) {
+      if (this.commands.has(command.id)) throw new Error(`Command already registered: ${command.id}`);
+      this.commands.set(command.id, command);
+    }
+    this.changed();
+  }
+
+  get(id: string): Command | undefined {
+    return this.commands.get(id);
+  }
+
+  list(): Command[] {
+    return [...this.commands.values()];
+  }
+
+  /** Replace the user's keybinding overrides (from settings). */
+  setOverrides(overrides: Record<string, string>): void {
+    this.overrides = { ...overrides };
+    for (const { accelerator, ids } of this.conflicts()) {
+      log.warn(`Keybinding ${accelerator} is bound to several commands; only ${ids[0]} gets it`, ids);
+    }
+    this.changed();
+  }
+
+  /** Effective accelerator for a command, or undefined when unbound. */
+  accelerator(id: string): string | undefined {
+    const override = this.overrides[id];
+    if (override !== undefined) return override || undefined;
+    return this.commands.get(id)?.accelerator;
+  }
+
+  /**
+   * Accelerator to actually register for `id`: undefined when unbound or
+   * when an earlier-registered command already owns the same keys.
+   */
+  effectiveAccelerator(id: string): string | undefined {
+    const accelerator = this.accelerator(id);
+    if (!accelerator) return undefined;
+    const owner = this.commandFor(accelerator);
+    return owner === id ? accelerator : undefined;
+  }
+
+  /** Id of the first command bound to `accelerator` (platform-normalized), if any. */
+  commandFor(accelerator: string, except?: string): string | undefined {
+    const wanted = normalizeAccelerator(accelerator, process.platform);
+    for (const id of this.commands.keys()) {
+      if (id === except) continue;
+      const bound = this.accelerator(id);
+      if (bound && normalizeAccelerator(bound, process.platform) === wanted) return id;
+    }
+    return undefined;
+  }
+
+  conflicts(): KeybindingConflict[] {
+    const byKeys = new Map<string, string[]>();
+    for (const id of this.commands.keys()) {
+      const bound = this.accelerator(id);
+      if (!bound) continue;
+      const keys = normalizeAccelerator(bound, process.platform);
+      byKeys.set(keys, [...(byKeys.get(keys) ?? []), id]);
+    }
+    return [...byKeys].filter(([, ids]) => ids.length > 1).map(([accelerator, ids]) => ({ accelerator, ids }));
+  }
+
+  isEnabled(id: string, ctx: CommandContext): boolean {
+    const command = this.commands.get(id);
+    return !!command && (command.enabled?.(ctx) ?? true);
+  }
+
+  async run(id: string, ctx: CommandContext): Promise<void> {
+    const command = this.commands.get(id);
+    if (!command) throw new Error(`Unknown command: ${id}`);
+    if (!this.isEnabled(id, ctx)) throw new Error(`Command is disabled: ${command.title}`);
+    log.info("Running command", id);
+    if (!command.hideInPalette) this.recentIds = [id, ...this.recentIds.filter((x) => x !== id)].slice(0, MAX_RECENT);
+    try {
+      await command.run(ctx);
+    } finally {
+      this.changed();
+    }
+  }
+
+  /** Commands run this session, most recent first (palette-hidden ones are left out). */
+  recent(): Command[] {
+    return this.recentIds.map((id) => this.commands.get(id)!);
+  }
+
+  info(ctx: CommandContext): CommandInfo[] {
+    return this.list().map((c) => ({
+      id: c.id,
+      title: c.title,
+      category: c.category,
+      accelerator: this.accelerator(c.id) ?? null,
+      defaultAccelerator: c.accelerator ?? null,
+      enabled: this.isEnabled(c.id, ctx),
+      checked: c.checked ? c.checked(ctx) : null,
+      palette: !c.hideInPalette,
+    }));
+  }
+
+  /** Called after registration, rebinding or any command run (menu state may change). */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private changed() {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (err) {
+        log.error("Command change listener failed", err);
+      }
+    }
+  }
+}
+
+export const commands = new CommandRegistry();
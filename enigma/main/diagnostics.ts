@@ -0,0 +1,173 @@
+// main/diagnostics.ts
+import { app, BrowserWindow, dialog, shell } from "electron";
+import { readFile, stat } from "node:fs/promises";
+import { arch, cpus, freemem, platform, release, totalmem, type, uptime } from "node:os";
+import { basename, join } from "node:path";
+import type { DiagnosticBundleRes } from "../shared/ipcChannels";
+import { Logger } from "../shared/logger";
+import { sensitiveSettingKeys } from "../shared/settingsSchema";
+import { recentErrors } from "./errorHandling";
+import type { LoadedConfig } from "./appConfig";
+import { listLogArchives } from "./logRetention";
+import { profiles } from "./profileService";
+import { WindowManager } from "./windowManager";
+import { writeZip, ZipEntry } from "./zip";
+
+const log = Logger.get("diagnostics");
+
+/** Archives included besides the current log file, newest first. */
+const MAX_LOG_ARCHIVES = 3;
+/** Only the tail of each log file is included past this size. */
+const MAX_LOG_BYTES = 10 * 1024 * 1024;
+/**
+ * Words that get a key redacted wherever it appears, on top of fields flagged
+ * `sensitive`. Matched against whole words of the key, so `authToken` and
+ * `api_key` are redacted but `author` and `oauthScopes` are not.
+ */
+const SENSITIVE_WORDS = /\b(pass(word|wd)?|secrets?|tokens?|auth|authorization|credentials?|cookies?|api ?key)\b/;
+const REDACTED = "[redacted]";
+
+export interface DiagnosticsContext {
+  windows: WindowManager;
+  /** Resolved config with per-value sources; written redacted to config.json. */
+  config: LoadedConfig;
+}
+
+function json(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+function isSensitiveKey(key: string): boolean {
+  // "authToken" / "api_key" / "x-auth" -> "auth token" / "api key" / "x auth"
+  const words = key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").split(/[^A-Za-z0-9]+/);
+  return SENSITIVE_WORDS.test(words.join(" ").toLowerCase());
+}
+
+/** Drop the user:password part of URLs, e.g. in updates.feedUrl. */
+function redactUrlCredentials(value: string): string {
+  return value.replace(/^([a-z][\w+.-]*:\/\/)[^/@\s]+@/i, `$1${REDACTED}@`);
+}
+
+function redact(value: unknown, sensitive: ReadonlySet<string>): unknown {
+  if (typeof value === "string") return redactUrlCredentials(value);
+  if (Array.isArray(value)) return value.map((v) => redact(v, sensitive));
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, sensitive.has(k) || isSensitiveKey(k) ? REDACTED : redact(v, sensitive)])
+  );
+}
+
+/**
+ * Command line with only switch names kept: values and positional arguments
+ * (log paths, enigma:// links, --update-url with credentials) are redacted.
+ * A `--flag value` pair's value is positional here, so it goes too.
+ */
+function redactArgv(argv: readonly string[]): string[] {
+  return argv.map((arg, i) => {
+    if (i === 0) return arg; // the executable
+    if (!arg.startsWith("-")) return REDACTED;
+    return arg.replace(/=[\s\S]*$/, `=${REDACTED}`);
+  });
+}
+
+async function settingsEntry(): Promise<ZipEntry> {
+  const path = profiles.settings().path;
+  let content: unknown;
+  try {
+    content = redact(JSON.parse(await readFile(path, "utf-8")), new Set<string>(sensitiveSettingKeys));
+  } catch (err) {
+    content = { error: `Could not read ${basename(path)}: ${(err as Error).message}` };
+  }
+  return { name: "settings.json", data: json({ profile: profiles.snapshot().active, settings: content }) };
+}
+
+/** Current log plus the newest archives; oversized files keep only their tail. */
+async function logEntries(): Promise<ZipEntry[]> {
+  const dir = app.getPath("logs");
+  const appName = app.getName();
+  const files = [
+    join(dir, `${appName}.log`),
+    ...listLogArchives(dir, appName)
+      .slice(0, MAX_LOG_ARCHIVES)
+      .map((f) => f.path),
+  ];
+
+  const entries: ZipEntry[] = [];
+  for (const path of files) {
+    try {
+      const info = await stat(path);
+      let data = await readFile(path);
+      const gz = path.endsWith(".gz");
+      // A gzip stream can't be cut; skip archives that are too large instead.
+      if (data.length > MAX_LOG_BYTES) {
+        if (gz) continue;
+        data = data.subarray(data.length - MAX_LOG_BYTES);
+      }
+      entries.push({ name: `logs/${basename(path)}`, data, store: gz, mtime: info.mtime });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") log.warn("Skipping log file", path, err);
+    }
+  }
+  return entries;
+}
+
+function systemInfo() {
+  return {
+    createdAt: new Date().toISOString(),
+    app: { name: app.getName(), version: app.getVersion(), packaged: app.isPackaged, locale: app.getLocale() },
+    versions: {
+      electron: process.versions.electron,
+      chromium: process.versions.chrome,
+      node: process.versions.node,
+      v8: process.versions.v8,
+    },
+    os: {
+      platform: platform(),
+      type: type(),
+      release: release(),
+      arch: arch(),
+      cpus: cpus().length,
+      totalMemory: totalmem(),
+      freeMemory: freemem(),
+      uptime: uptime(),
+    },
+    process: { uptime: process.uptime(), argv: redactArgv(process.argv) },
+  };
+}
+
+/** Collect everything support asks for into zip entries. */
+export async function collectDiagnostics({ windows, config }: DiagnosticsContext): Promise<ZipEntry[]> {
+  return [
+    { name: "system.json", data: json(systemInfo()) },
+    { name: "config.json", data: json(redact(config, new Set())) },
+    { name: "metrics.json", data: json(app.getAppMetrics()) },
+    { name: "errors.json", data: json(recentErrors()) },
+    { name: "window-state.json", data: json(windows.stateSnapshot()) },
+    await settingsEntry(),
+    ...(await logEntries()),
+  ];
+}
+
+/**
+ * Ask where to save, then write the diagnostic bundle zip and reveal it.
+ * Resolves `{ path: null }` when the save dialog is cancelled.
+ */
+export async function createDiagnosticBundle(
+  ctx: DiagnosticsContext,
+  win: BrowserWindow | null
+): Promise<DiagnosticBundleRes> {
+  const stampNow = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+  const opts: Electron.SaveDialogOptions = {
+    title: "Save Diagnostic Bundle",
+    defaultPath: join(app.getPath("downloads"), `enigma-diagnostics-${stampNow}.zip`),
+    filters: [{ name: "Zip archive", extensions: ["zip"] }],
+  };
+  const { canceled, filePath } = win ? await dialog.showSaveDialog(win, opts) : await dialog.showSaveDialog(opts);
+  if (canceled || !filePath) return { path: null };
+
+  const entries = await collectDiagnostics(ctx);
+  await writeZip(filePath, entries);
+  log.info("Wrote diagnostic bundle", filePath, { files: entries.map((e) => e.name) });
+  shell.showItemInFolder(filePath);
+  return { path: filePath };
+}
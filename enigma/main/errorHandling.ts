@@ -1,26 +1,89 @@
 // main/errorHandling.ts
 import { app, dialog } from 'electron';
-import { Logger } from '../shared/logger';
+import { Logger, serializeLogArg } from '../shared/logger';
 
+export interface CapturedError {
+  ts: string;
+  kind: 'uncaughtException' | 'unhandledRejection' | 'render-process-gone' | 'child-process-gone';
+  error: unknown;
+}
+
+/** How many errors `recentErrors()` keeps; oldest are dropped first. */
+const MAX_RECENT_ERRORS = 50;
+const recent: CapturedError[] = [];
+
+function capture(kind: CapturedError['kind'], error: unknown) {
+  recent.push({ ts: new Date().toISOString(), kind, error: serializeLogArg(error) });
+  if (recent.length > MAX_RECENT_ERRORS) recent.shift();
+}
+
+/** Errors seen by the handlers below since startup, oldest first. */
+export function recentErrors(): CapturedError[] {
+  return [...recent];
+}
+
+let prompting = false;
+
+/**
+ * Offer a clean relaunch after an uncaught main-process error. Only one
+ * prompt is shown at a time; errors raised while it is open are just logged.
+ */
+async function promptRelaunch(err: Error) {
+  if (prompting) return;
+  prompting = true;
+  try {
+    const detail = `${err?.message ?? err}\n\nThe app may be in an inconsistent state. Relaunching is recommended.`;
+    // Message boxes need a ready app; before that only showErrorBox works.
+    if (!app.isReady()) {
+      dialog.showErrorBox('Application Error', detail);
+      return;
+    }
+    const { response } = await dialog.showMessageBox({
+      type: 'error',
+      message: 'Enigma ran into an unexpected error',
+      detail,
+      buttons: ['Relaunch', 'Continue', 'Quit'],
+      defaultId: 0,
+      cancelId: 1,
+    });
+    if (response === 0) {
+      Logger.get('errors').info('Relaunching after uncaught exception');
+      app.relaunch();
+      app.quit();
+    } else if (response === 2) {
+      app.quit();
+    }
+  } finally {
+    prompting = false;
+  }
+}
+
+/**
+ * Log (and remember, see `recentErrors`) process-level failures. Renderer
+ * crashes are recovered per window by `WindowManager`; with `showDialogs`,
+ * an uncaught main-process exception offers to relaunch the app.
+ */
 export function setupErrorHandling(showDialogs = false) {
   const log = Logger.get('errors');
 
   process.on('uncaughtException', (err) => {
+    capture('uncaughtException', err);
     log.error('uncaughtException', err);
-    if (showDialogs) {
-      dialog.showErrorBox('Application Error', `${err?.message ?? err}`);
-    }
+    if (showDialogs) void promptRelaunch(err);
   });
 
   process.on('unhandledRejection', (reason: any) => {
+    capture('unhandledRejection', reason);
     log.error('unhandledRejection', reason);
   });
 
   app.on('render-process-gone', (_e, details) => {
+    capture('render-process-gone', details);
     log.error('render-process-gone', details);
   });
 
   app.on('child-process-gone', (_e, details) => {
+    capture('child-process-gone', details);
     log.error('child-process-gone', details);
   });
 }
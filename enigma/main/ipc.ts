@@ -1,19 +1,85 @@
+import { app, BrowserWindow } from "electron";
 import { ipcMain } from "electron-better-ipc";
-import { Channels, IpcContract } from "../shared/ipcChannels";
-import { SettingsService } from "./settingsService";
+import {
+  Channels,
+  Events,
+  IpcContract,
+  IpcParsedRequest,
+  IpcRequestFrameSchema,
+  IpcSchemas,
+  Operations,
+} from "../shared/ipcChannels";
+import { IpcResult, ipcFail, ipcOk, toIpcIssues } from "../shared/ipcResult";
+import { profiles } from "./profileService";
+import { exportSettings, importSettings, resetSettings } from "./settingsTransfer";
+import { broadcast } from "./ipcEvents";
+import { operations } from "./operations";
+import { scanFolder } from "./scanFolder";
+import { registerRendererLogSink } from "./rendererLogs";
 import { Logger } from "../shared/logger";
+import { runWithLogMeta } from "./logContext";
+import { createDiagnosticBundle } from "./diagnostics";
+import { describeConfig, LoadedConfig } from "./appConfig";
+import { commands } from "./commands";
+import { setKeybinding } from "./appCommands";
+import { updates } from "./updateService";
+import { WindowManager } from "./windowManager";
 
 const log = Logger.get("ipc");
-const settings = new SettingsService();
 
+/** Settings of whichever profile is active at call time. */
+const settings = () => profiles.settings();
+
+/**
+ * Register a handler for a channel. The payload is validated against the
+ * channel's request schema before the handler runs, and the handler's result
+ * against the response schema; every reply is an `IpcResult` envelope.
+ * Everything logged while handling runs under the caller's correlation id.
+ */
 function answer<C extends keyof IpcContract>(
   channel: C,
-  handler: (payload: IpcContract[C]['req']) => Promise<IpcContract[C]['res']> | IpcContract[C]['res']
+  handler: (
+    payload: IpcParsedRequest<C>,
+    win: BrowserWindow
+  ) => Promise<IpcContract[C]['res']> | IpcContract[C]['res']
 ) {
-  ipcMain.answerRenderer(channel, handler as any);
+  const schemas = IpcSchemas[channel];
+
+  async function handle(incoming: unknown, win: BrowserWindow): Promise<IpcResult<unknown>> {
+    const req = schemas.req.safeParse(incoming ?? {});
+    if (!req.success) {
+      log.warn(`${channel}: rejected invalid payload`, req.error.issues);
+      return ipcFail("INVALID_REQUEST", `Invalid payload for ${channel}`, toIpcIssues(req.error));
+    }
+
+    let result: unknown;
+    try {
+      result = await handler(req.data as IpcParsedRequest<C>, win);
+    } catch (err) {
+      log.error(`${channel}: handler failed`, err);
+      return ipcFail("HANDLER_ERROR", (err as Error)?.message ?? String(err));
+    }
+
+    const res = schemas.res.safeParse(result);
+    if (!res.success) {
+      log.error(`${channel}: handler returned an invalid response`, res.error.issues);
+      return ipcFail("INVALID_RESPONSE", `Invalid response from ${channel}`, toIpcIssues(res.error));
+    }
+    return ipcOk(res.data);
+  }
+
+  ipcMain.answerRenderer(channel, (incoming: unknown, win: BrowserWindow) => {
+    const frame = IpcRequestFrameSchema.safeParse(incoming);
+    if (!frame.success) {
+      log.warn(`${channel}: rejected malformed request frame`, frame.error.issues);
+      return ipcFail("INVALID_REQUEST", `Malformed request for ${channel}`, toIpcIssues(frame.error));
+    }
+    const { payload, meta } = frame.data;
+    return runWithLogMeta({ ...meta, windowId: win.id, channel }, () => handle(payload, win));
+  });
 }
 
-export function registerIpc() {
+export function registerIpc(windows: WindowManager, config: LoadedConfig) {
   answer(Channels.Ping, async () => {
     log.info("ping");
     return { ok: true, ts: Date.now() };
@@ -21,11 +87,83 @@ export function registerIpc() {
 
   answer(Channels.GetSettings, async () => {
     log.debug("get-settings");
-    return settings.get();
+    return settings().get();
   });
 
-  answer(Channels.SaveSettings, async (incoming) => {
+  answer(Channels.SaveSettings, async (incoming, win) => {
     log.info("save-settings", incoming);
-    return settings.save(incoming ?? {});
+    const saved = settings().save(incoming);
+    broadcast(Events.SettingsChanged, { settings: saved, sourceWindowId: win.id });
+    return saved;
   });
+
+  answer(Channels.ExportSettings, (_req, win) => exportSettings(settings(), win));
+  answer(Channels.ImportSettings, (_req, win) => importSettings(settings(), win));
+  answer(Channels.ResetSettings, (_req, win) => resetSettings(settings(), win));
+
+  answer(Channels.ListProfiles, () => profiles.snapshot());
+
+  answer(Channels.CreateProfile, ({ name }) => {
+    const snapshot = profiles.create(name);
+    broadcast(Events.ProfilesChanged, snapshot);
+    return snapshot;
+  });
+
+  answer(Channels.CloneProfile, ({ source, name }) => {
+    const snapshot = profiles.clone(source, name);
+    broadcast(Events.ProfilesChanged, snapshot);
+    return snapshot;
+  });
+
+  answer(Channels.RenameProfile, ({ from, to }) => {
+    const snapshot = profiles.rename(from, to);
+    broadcast(Events.ProfilesChanged, snapshot);
+    return snapshot;
+  });
+
+  answer(Channels.DeleteProfile, ({ name }) => {
+    const snapshot = profiles.delete(name);
+    broadcast(Events.ProfilesChanged, snapshot);
+    return snapshot;
+  });
+
+  answer(Channels.SwitchProfile, ({ name }, win) => {
+    const snapshot = profiles.switch(name);
+    broadcast(Events.ProfilesChanged, snapshot);
+    broadcast(Events.SettingsChanged, { settings: settings().get(), sourceWindowId: win.id });
+    return snapshot;
+  });
+
+  answer(Channels.CreateDiagnosticBundle, (_req, win) => createDiagnosticBundle({ windows, config }, win));
+  answer(Channels.GetEffectiveConfig, () => describeConfig(config));
+  answer(Channels.GetAppInfo, () => ({
+    name: app.getName(),
+    version: app.getVersion(),
+    versions: {
+      electron: process.versions.electron,
+      chromium: process.versions.chrome,
+      node: process.versions.node,
+      v8: process.versions.v8,
+    },
+  }));
+
+  answer(Channels.GetLogSetup, (_req, win) => ({ windowId: win.id, format: config.config.logging.format }));
+
+  answer(Channels.ListCommands, (_req, win) => ({ platform: process.platform, commands: commands.info({ win }) }));
+  answer(Channels.RunCommand, async ({ id }, win) => {
+    await commands.run(id, { win });
+    return { id };
+  });
+  answer(Channels.SetKeybinding, ({ id, accelerator }, win) => setKeybinding(id, accelerator, { win }));
+
+  answer(Channels.GetUpdateStatus, () => updates.get());
+  answer(Channels.CheckForUpdates, () => updates.check());
+  answer(Channels.InstallUpdate, () => {
+    updates.install();
+    return {};
+  });
+
+  operations.register(Operations.ScanFolder, scanFolder);
+  operations.install();
+  registerRendererLogSink();
 }
@@ -0,0 +1,104 @@
+// main/ipcEvents.ts
+import { BrowserWindow } from "electron";
+import { format } from "node:util";
+import electronLog from "electron-log";
+import { EventSchemas, Events, IpcEventContract, IpcEventPayload } from "../shared/ipcChannels";
+import { Logger } from "../shared/logger";
+
+const log = Logger.get("ipc-events");
+
+type MainListener<E extends keyof IpcEventContract> = (payload: IpcEventContract[E]) => void;
+/** Keyed by event; each set only holds that event's listeners (see `listenersFor`). */
+const mainListeners = new Map<keyof IpcEventContract, Set<MainListener<keyof IpcEventContract>>>();
+
+function listenersFor<E extends keyof IpcEventContract>(event: E): Set<MainListener<E>> {
+  let set = mainListeners.get(event);
+  if (!set) mainListeners.set(event, (set = new Set()));
+  return set as Set<MainListener<E>>;
+}
+
+/**
+ * Listen for an event inside the main process. Listeners run on every
+ * `broadcast`, so main-side services react to the same changes windows see.
+ * @returns an unsubscribe function.
+ */
+export function onEvent<E extends keyof IpcEventContract>(
+  event: E,
+  listener: MainListener<E>
+): () => void {
+  const set = listenersFor(event);
+  set.add(listener);
+  return () => {
+    set.delete(listener);
+  };
+}
+
+function validate<E extends keyof IpcEventContract>(event: E, payload: IpcEventPayload<E>): IpcEventPayload<E> | null {
+  const parsed = EventSchemas[event].safeParse(payload);
+  if (!parsed.success) {
+    log.warn(`${event}: refusing to send invalid payload`, parsed.error.issues);
+    return null;
+  }
+  return parsed.data as IpcEventPayload<E>;
+}
+
+/** Send an event to a single window. */
+export function emitTo<E extends keyof IpcEventContract>(
+  win: BrowserWindow,
+  event: E,
+  payload: IpcEventPayload<E>
+): void {
+  if (win.isDestroyed()) return;
+  const data = validate(event, payload);
+  if (data !== null) win.webContents.send(event, data);
+}
+
+/** Send an event to every open window, optionally skipping one. */
+export function broadcast<E extends keyof IpcEventContract>(
+  event: E,
+  payload: IpcEventPayload<E>,
+  opts: { except?: BrowserWindow } = {}
+): void {
+  const data = validate(event, payload);
+  if (data === null) return;
+
+  for (const listener of listenersFor(event)) {
+    try {
+      listener(data);
+    } catch (err) {
+      log.error(`${event}: main-side listener failed`, err);
+    }
+  }
+
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (win === opts.except || win.isDestroyed()) continue;
+    win.webContents.send(event, data);
+  }
+}
+
+/**
+ * Mirror main-process log lines to renderers as `LogLineAppended` events.
+ * Installed as an electron-log transport so it sees exactly what is written.
+ */
+export function startLogLineEvents(level: electronLog.LevelOption = "info"): void {
+  let sending = false;
+
+  const transport = ((message: electronLog.LogMessage) => {
+    // A failed send may itself log; don't recurse into ourselves.
+    if (sending) return;
+    sending = true;
+    try {
+      broadcast(Events.LogLineAppended, {
+        level: String(message.level),
+        text: format(...message.data),
+        ts: message.date.getTime(),
+      });
+    } finally {
+      sending = false;
+    }
+  }) as electronLog.Transport;
+  transport.level = level;
+  transport.transforms = [];
+
+  electronLog.transports["ipc-events"] = transport;
+}
@@ -0,0 +1,201 @@
+// main/launchRouter.ts
+import { app, BrowserWindow, dialog } from "electron";
+import { statSync } from "node:fs";
+import { isAbsolute, resolve } from "node:path";
+import { positionalArgs } from "../shared/config";
+import { Logger } from "../shared/logger";
+import { editableSettingKeys } from "../shared/settingsSchema";
+import { LOG_FILE, showLogFiles } from "./logViewer";
+import type { WindowKind, WindowParams } from "./windowKinds";
+
+const log = Logger.get("launch");
+
+export const PROTOCOL = "enigma";
+
+/**
+ * What a link or launch argument asks the running app to do. Files from a
+ * link (`fromLink`) may come from any web page, so the user confirms them.
+ */
+export type LaunchTarget =
+  | { type: "window"; kind: WindowKind; params: WindowParams }
+  | { type: "files"; paths: string[]; fromLink: boolean };
+
+type Route = (segments: string[], query: URLSearchParams) => LaunchTarget;
+
+const windowTarget = (kind: WindowKind, params: WindowParams = {}): LaunchTarget => ({ type: "window", kind, params });
+
+function filesFromQuery(query: URLSearchParams): string[] {
+  const paths = query.getAll("path");
+  const relative = paths.find((p) => !isAbsolute(p));
+  if (relative) throw new Error(`Path must be absolute: ${relative}`);
+  const other = paths.find((p) => !LOG_FILE.test(p));
+  if (other) throw new Error(`Not a .log or .log.gz file: ${other}`);
+  return paths;
+}
+
+/** enigma://<route>/<segments…>?<query>; the route is the URL's host. */
+const routes: Record<string, Route> = {
+  main: () => windowTarget("main"),
+  // enigma://settings/theme focuses one field; enigma://settings/shortcuts the keybinding list.
+  settings: ([field]) => {
+    if (field === undefined) return windowTarget("settings");
+    if (field !== "shortcuts" && !(editableSettingKeys as string[]).includes(field)) {
+      throw new Error(`Unknown settings field: ${field}`);
+    }
+    return windowTarget("settings", { field });
+  },
+  // enigma://logs?path=/abs/file.log also loads the given files.
+  logs: (_, query) => {
+    const paths = filesFromQuery(query);
+    return paths.length ? { type: "files", paths, fromLink: true } : windowTarget("logs");
+  },
+  config: () => windowTarget("config"),
+  about: () => windowTarget("about"),
+  open: (_, query) => {
+    const paths = filesFromQuery(query);
+    if (!paths.length) throw new Error("enigma://open needs at least one ?path=");
+    return { type: "files", paths, fromLink: true };
+  },
+};
+
+/** Parse an `enigma://` URL; throws on unknown routes or bad parameters. */
+export function parseLaunchUrl(raw: string): LaunchTarget {
+  const url = new URL(raw);
+  if (url.protocol !== `${PROTOCOL}:`) throw new Error(`Not an ${PROTOCOL}:// URL: ${raw}`);
+
+  // "enigma://settings/theme" has host "settings"; "enigma:///settings/theme" puts it in the path.
+  const segments = [url.host, ...url.pathname.split("/")].filter(Boolean).map(decodeURIComponent);
+  const name = segments.shift()?.toLowerCase() ?? "main";
+  const route = Object.hasOwn(routes, name) ? routes[name] : undefined;
+  if (!route) throw new Error(`Unknown ${PROTOCOL}:// route: ${name}`);
+  return route(segments, url.searchParams);
+}
+
+/**
+ * Targets in a process's argv: `enigma://` URLs and files (resolved against
+ * `cwd`, the launching shell's directory). Unusable arguments are logged and
+ * skipped so one bad argument doesn't drop the rest.
+ */
+export function parseLaunchArgs(argv: readonly string[], cwd: string): LaunchTarget[] {
+  // argv[0] is the executable; unpackaged runs also pass the app path.
+  const args = positionalArgs(argv.slice(process.defaultApp ? 2 : 1));
+  const targets: LaunchTarget[] = [];
+  const files: string[] = [];
+
+  for (const arg of args) {
+    try {
+      if (arg.toLowerCase().startsWith(`${PROTOCOL}:`)) {
+        targets.push(parseLaunchUrl(arg));
+        continue;
+      }
+      const path = resolve(cwd, arg);
+      if (!LOG_FILE.test(path)) throw new Error("Not a .log or .log.gz file");
+      if (!statSync(path).isFile()) throw new Error("Not a file");
+      files.push(path);
+    } catch (err) {
+      log.warn(`Ignoring launch argument ${JSON.stringify(arg)}:`, (err as Error)?.message ?? err);
+    }
+  }
+  if (files.length) targets.push({ type: "files", paths: files, fromLink: false });
+  return targets;
+}
+
+/**
+ * Register Enigma as the OS handler for `enigma://`. Unpackaged (dev) runs
+ * register the Electron binary plus the app path so links reach this checkout.
+ */
+export function registerProtocolClient(): void {
+  const ok = process.defaultApp
+    ? app.setAsDefaultProtocolClient(PROTOCOL, process.execPath, [resolve(process.argv[1] ?? ".")])
+    : app.setAsDefaultProtocolClient(PROTOCOL);
+  if (!ok) log.warn(`Could not register as the ${PROTOCOL}:// handler`);
+}
+
+/**
+ * Sends launch targets (from the first launch, later instances and macOS
+ * open-url/open-file events) to windows. Targets arriving before `ready()`
+ * are queued.
+ */
+export class LaunchRouter {
+  private pending: LaunchTarget[] = [];
+  private isReady = false;
+
+  constructor(private openWindow: (kind: WindowKind, params: WindowParams) => BrowserWindow) {}
+
+  /** Start routing; flushes anything queued during startup. */
+  ready(): void {
+    this.isReady = true;
+    const queued = this.pending;
+    this.pending = [];
+    this.route(queued);
+  }
+
+  /** Route an `enigma://` URL; returns false if it was invalid. */
+  openUrl(url: string): boolean {
+    try {
+      this.route([parseLaunchUrl(url)]);
+      return true;
+    } catch (err) {
+      log.warn(`Ignoring link ${url}:`, (err as Error)?.message ?? err);
+      return false;
+    }
+  }
+
+  /** Route the URLs and files in a launch's argv; returns how many targets it had. */
+  openArgs(argv: readonly string[], cwd: string): number {
+    const targets = parseLaunchArgs(argv, cwd);
+    this.route(targets);
+    return targets.length;
+  }
+
+  /** Files handed over by the OS (macOS open-file), as if from the command line. */
+  openFiles(paths: string[]): void {
+    const files = paths.filter((p) => LOG_FILE.test(p));
+    if (files.length < paths.length) log.warn("Ignoring files that aren't logs", paths.filter((p) => !files.includes(p)));
+    if (files.length) this.route([{ type: "files", paths: files, fromLink: false }]);
+  }
+
+  private route(targets: LaunchTarget[]) {
+    if (!this.isReady) {
+      this.pending.push(...targets);
+      return;
+    }
+    for (const target of targets) {
+      log.info("Routing launch target", target);
+      try {
+        if (target.type === "window") {
+          this.openWindow(target.kind, target.params);
+        } else if (target.fromLink) {
+          void this.confirmFiles(target.paths);
+        } else {
+          showLogFiles(this.openWindow("logs", {}), target.paths);
+        }
+      } catch (err) {
+        log.error("Failed to route launch target", target, err);
+      }
+    }
+  }
+
+  /** A link asked to open local files; only do so once the user agrees. */
+  private async confirmFiles(paths: string[]) {
+    const opts: Electron.MessageBoxOptions = {
+      type: "question",
+      message: `A link wants to open ${paths.length === 1 ? "a log file" : `${paths.length} log files`}`,
+      detail: `${paths.join("\n")}\n\nOnly open files you expected to see.`,
+      buttons: ["Open", "Cancel"],
+      defaultId: 1,
+      cancelId: 1,
+    };
+    const win = BrowserWindow.getFocusedWindow();
+    const { response } = win ? await dialog.showMessageBox(win, opts) : await dialog.showMessageBox(opts);
+    if (response !== 0) {
+      log.info("User declined to open linked files", paths);
+      return;
+    }
+    try {
+      showLogFiles(this.openWindow("logs", {}), paths);
+    } catch (err) {
+      log.error("Failed to open linked files", paths, err);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+// main/logContext.ts
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Logger, LogMeta } from "../shared/logger";
+
+const storage = new AsyncLocalStorage<LogMeta>();
+
+/** Make ambient metadata (see `runWithLogMeta`) visible to every Logger in main. */
+export function installLogContext(): void {
+  Logger.setMetaProvider(() => storage.getStore());
+}
+
+/**
+ * Run `fn` with `meta` attached to all log entries it produces, including
+ * across awaits. Nested calls inherit and extend the outer metadata.
+ */
+export function runWithLogMeta<T>(meta: LogMeta, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...meta }, fn);
+}
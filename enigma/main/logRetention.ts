@@ -0,0 +1,159 @@
+// main/logRetention.ts
+import electronLog from "electron-log";
+import { createReadStream, createWriteStream, readdirSync, renameSync, statSync, unlinkSync } from "node:fs";
+import { join, parse } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGzip } from "node:zlib";
+import type { AppConfig } from "../shared/config";
+import { Logger } from "../shared/logger";
+
+export type LogRetention = AppConfig["logging"]["retention"];
+
+const log = Logger.get("log-retention");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Suffix of a gzip still being written; renamed to `.gz` once complete. */
+const GZIP_TMP = ".gz.tmp";
+
+/** Archives queued for or being compressed; pruning leaves them alone. */
+const busy = new Set<string>();
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `enigma.20250828-171105-042.log[.gz]`, plus electron-log's legacy `enigma.old.log`. */
+function archivePattern(appName: string) {
+  return new RegExp(`^${escapeRegExp(appName)}\\.(\\d{8}-\\d{6}-\\d{3}|old)\\.log(\\.gz)?$`);
+}
+
+function stamp(d = new Date()) {
+  const p = (n: number, w = 2) => String(n).padStart(w, "0");
+  return (
+    `${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}-` +
+    `${p(d.getHours())}${p(d.getMinutes())}${p(d.getSeconds())}-${p(d.getMilliseconds(), 3)}`
+  );
+}
+
+/** Archived log files for `appName` in `logsDir`, newest first. */
+export function listLogArchives(logsDir: string, appName: string): { path: string; mtimeMs: number }[] {
+  const pattern = archivePattern(appName);
+  let names: string[];
+  try {
+    names = readdirSync(logsDir);
+  } catch {
+    return [];
+  }
+  return names
+    .filter((name) => pattern.test(name))
+    .flatMap((name) => {
+      const path = join(logsDir, name);
+      try {
+        return [{ path, mtimeMs: statSync(path).mtimeMs }];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+/**
+ * Delete archives beyond `maxFiles` or older than `maxAgeDays` (0 disables
+ * either limit). Archives still being compressed are skipped; partial
+ * `.gz.tmp` files never match the archive pattern.
+ */
+export function pruneLogArchives(logsDir: string, appName: string, retention: LogRetention): void {
+  const cutoff = retention.maxAgeDays > 0 ? Date.now() - retention.maxAgeDays * DAY_MS : -Infinity;
+
+  listLogArchives(logsDir, appName).forEach((file, index) => {
+    const tooMany = retention.maxFiles > 0 && index >= retention.maxFiles;
+    if (busy.has(file.path) || (!tooMany && file.mtimeMs >= cutoff)) return;
+    try {
+      unlinkSync(file.path);
+      log.info("Pruned log archive", file.path);
+    } catch (err) {
+      log.warn("Failed to prune log archive", file.path, err);
+    }
+  });
+}
+
+/** Compress to a temporary name first, so a `.gz` archive is always complete. */
+async function gzipFile(path: string): Promise<void> {
+  const tmp = `${path}${GZIP_TMP}`;
+  try {
+    await pipeline(createReadStream(path), createGzip(), createWriteStream(tmp));
+    renameSync(tmp, `${path}.gz`);
+  } catch (err) {
+    try {
+      unlinkSync(tmp);
+    } catch {
+      // never created
+    }
+    throw err;
+  }
+  unlinkSync(path);
+}
+
+/** Remove partial gzips left by a run that exited mid-compression; their source is still there. */
+function removeStaleTemporaries(logsDir: string, appName: string) {
+  let names: string[];
+  try {
+    names = readdirSync(logsDir);
+  } catch {
+    return;
+  }
+  for (const name of names) {
+    if (!name.startsWith(`${appName}.`) || !name.endsWith(GZIP_TMP)) continue;
+    try {
+      unlinkSync(join(logsDir, name));
+    } catch (err) {
+      log.warn("Failed to remove partial log archive", name, err);
+    }
+  }
+}
+
+/**
+ * Replace electron-log's single `.old` file with timestamped archives,
+ * optionally gzipped, and enforce the retention policy on startup and after
+ * every rotation.
+ */
+export function setupLogRetention(logsDir: string, appName: string, retention: LogRetention): void {
+  const fileTransport = electronLog.transports.file;
+  // Rotations compress and prune one after another, never overlapping.
+  let rotations = Promise.resolve();
+
+  fileTransport.archiveLogFn = (file) => {
+    const current = file.path;
+    const { dir, name, ext } = parse(current);
+    const archived = join(dir, `${name}.${stamp()}${ext}`);
+
+    // electron-log expects the old file gone when this returns, so the
+    // rename is synchronous; compression and pruning can trail behind.
+    // Nothing here may log synchronously: that would re-enter rotation.
+    try {
+      renameSync(current, archived);
+    } catch (err) {
+      file.clear();
+      setImmediate(() => log.warn("Could not rotate log; truncated it instead", err));
+      return;
+    }
+
+    if (retention.compress) busy.add(archived);
+    rotations = rotations.then(async () => {
+      if (retention.compress) {
+        try {
+          await gzipFile(archived);
+        } catch (err) {
+          log.warn("Failed to compress rotated log", archived, err);
+        } finally {
+          busy.delete(archived);
+        }
+      }
+      pruneLogArchives(logsDir, appName, retention);
+    });
+  };
+
+  removeStaleTemporaries(logsDir, appName);
+  pruneLogArchives(logsDir, appName, retention);
+}
@@ -0,0 +1,130 @@
+// main/logTail.ts
+import { open, stat } from "node:fs/promises";
+import { Logger } from "../shared/logger";
+
+const log = Logger.get("log-tail");
+
+export interface LogTailOptions {
+  /** Lines of history delivered by `start()`. */
+  initialLines?: number;
+  pollMs?: number;
+  /** Bytes read per poll at most, so a huge burst can't stall main. */
+  maxReadBytes?: number;
+}
+
+export interface LogTailHandlers {
+  onLines(lines: string[]): void;
+  /** The file was rotated, truncated or replaced; reading restarts at its beginning. */
+  onRotate(): void;
+}
+
+/**
+ * Incremental tail of a growing text file. Tracks a byte offset and file
+ * identity; when the file shrinks or its inode changes (electron-log renames
+ * the active file on rotation) it starts over on the new file.
+ */
+export class LogTail {
+  private offset = 0;
+  private ino: number | undefined;
+  private partial = "";
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private reading = false;
+  private readonly initialLines: number;
+  private readonly pollMs: number;
+  private readonly maxReadBytes: number;
+
+  constructor(
+    private readonly path: string,
+    private readonly handlers: LogTailHandlers,
+    opts: LogTailOptions = {}
+  ) {
+    this.initialLines = opts.initialLines ?? 500;
+    this.pollMs = opts.pollMs ?? 500;
+    this.maxReadBytes = opts.maxReadBytes ?? 1024 * 1024;
+  }
+
+  /** Read the last `initialLines` lines, then follow the file. */
+  async start(): Promise<string[]> {
+    const initial = await this.readInitial();
+    this.timer = setInterval(() => void this.poll(), this.pollMs);
+    return initial;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async readInitial(): Promise<string[]> {
+    let info;
+    try {
+      info = await stat(this.path);
+    } catch {
+      return []; // not created yet; poll picks it up
+    }
+    this.ino = info.ino;
+
+    // Read backwards in chunks until we have enough lines.
+    const fh = await open(this.path, "r");
+    try {
+      let start = info.size;
+      let text = "";
+      while (start > 0 && text.split("\n").length <= this.initialLines + 1) {
+        const len = Math.min(64 * 1024, start);
+        start -= len;
+        const buf = Buffer.alloc(len);
+        await fh.read(buf, 0, len, start);
+        text = buf.toString("utf-8") + text;
+      }
+      this.offset = info.size;
+      const lines = text.split("\n");
+      this.partial = lines.pop() ?? "";
+      if (start > 0) lines.shift(); // first line is probably cut off
+      return lines.slice(-this.initialLines);
+    } finally {
+      await fh.close();
+    }
+  }
+
+  private async poll() {
+    if (this.reading) return;
+    this.reading = true;
+    try {
+      let info;
+      try {
+        info = await stat(this.path);
+      } catch {
+        return; // between rotation rename and re-create
+      }
+
+      if (info.ino !== this.ino || info.size < this.offset) {
+        if (this.ino !== undefined) {
+          log.debug("Log file rotated; restarting tail", this.path);
+          this.handlers.onRotate();
+        }
+        this.ino = info.ino;
+        this.offset = 0;
+        this.partial = "";
+      }
+      if (info.size === this.offset) return;
+
+      const len = Math.min(info.size - this.offset, this.maxReadBytes);
+      const buf = Buffer.alloc(len);
+      const fh = await open(this.path, "r");
+      try {
+        await fh.read(buf, 0, len, this.offset);
+      } finally {
+        await fh.close();
+      }
+      this.offset += len;
+
+      const lines = (this.partial + buf.toString("utf-8")).split("\n");
+      this.partial = lines.pop() ?? "";
+      if (lines.length) this.handlers.onLines(lines.map((l) => l.replace(/\r$/, "")));
+    } catch (err) {
+      log.warn("Failed to read log file", this.path, err);
+    } finally {
+      this.reading = false;
+    }
+  }
+}
@@ -1,79 +1,227 @@
-import { BrowserWindow, app } from "electron";
-import { join } from "node:path";
-import { readFileSync, watchFile, existsSync } from "node:fs";
+import { app, BrowserWindow, dialog, ipcMain, IpcMainInvokeEvent, WebContents } from "electron";
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
+import { LogViewerChannels } from "../shared/ipcChannels";
+import type { LoadedLogFile, LogFileInfo } from "../shared/ipcBridge";
+import { LogParser } from "../shared/logParser";
 import { Logger } from "../shared/logger";
+import { LogTail } from "./logTail";
 
-let logViewerWindow: BrowserWindow | null = null;
 const log = Logger.get("log-viewer");
 
-export function createLogViewerWindow(): void {
-  if (logViewerWindow) {
-    logViewerWindow.focus();
-    return;
-  }
+/** webContents allowed to subscribe (log viewer windows), with their active tail. */
+const viewers = new Map<number, LogTail | null>();
+/** Files sent to a viewer from outside, waiting for its page to take them. */
+const requested = new Map<number, string[]>();
+/** Files outside the logs folder a viewer may read: picked, dropped or sent to it. */
+const granted = new Map<number, Set<string>>();
+let ipcRegistered = false;
 
-  const logFilePath = join(app.getPath("logs"), `${app.getName()}.log`);
-  log.info("Opening log viewer for", logFilePath);
-
-  logViewerWindow = new BrowserWindow({
-    width: 900,
-    height: 600,
-    title: "Log Viewer",
-    webPreferences: {
-      contextIsolation: true,
-      nodeIntegration: false,
-      sandbox: true,
-    },
-  });
+/** Refuse to load anything bigger than this, on disk or once decompressed. */
+const MAX_OPEN_BYTES = 50 * 1024 * 1024;
+/** The only files a viewer opens (see mayOpen). */
+export const LOG_FILE = /\.log(\.gz)?$/i;
+
+const gunzipAsync = promisify(gunzip);
+
+function logFilePath() {
+  return join(app.getPath("logs"), `${app.getName()}.log`);
+}
+
+function assertViewer(event: IpcMainInvokeEvent) {
+  if (!viewers.has(event.sender.id)) throw new Error("Not a log viewer window");
+}
 
-  const html = generateViewerHTML(logFilePath);
-  logViewerWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+async function listLogFiles(): Promise<LogFileInfo[]> {
+  const dir = app.getPath("logs");
+  const current = logFilePath();
+  const names = (await readdir(dir).catch(() => [] as string[])).filter((n) => LOG_FILE.test(n));
 
-  logViewerWindow.on("closed", () => (logViewerWindow = null));
+  const files = await Promise.all(
+    names.map(async (name) => {
+      const path = join(dir, name);
+      try {
+        const info = await stat(path);
+        return [{ name, path, size: info.size, mtimeMs: info.mtimeMs, current: path === current }];
+      } catch {
+        return [];
+      }
+    })
+  );
+  return files.flat().sort((a, b) => Number(b.current) - Number(a.current) || b.mtimeMs - a.mtimeMs);
+}
+
+function grant(wcId: number, paths: string[]) {
+  const set = granted.get(wcId) ?? new Set<string>();
+  for (const path of paths) set.add(resolve(path));
+  granted.set(wcId, set);
 }
 
 /**
- * Generates an inline HTML page that tails and displays the log file.
+ * A viewer may read log files (by extension) in the app's logs folder, and
+ * ones the user picked, dropped or sent in from the command line or a link.
+ * Anything else its page asks for is refused, so it can't read arbitrary files.
  */
-function generateViewerHTML(logFilePath: string): string {
-  const initialLogs = existsSync(logFilePath)
-    ? readFileSync(logFilePath, "utf-8")
-        .split("\n")
-        .slice(-500)
-        .join("\n")
-    : "Log file not found.";
-
-  // Watch for updates
-  const watcherScript = `
-    const fs = require('fs');
-    const filePath = ${JSON.stringify(logFilePath)};
-    const pre = document.getElementById('log');
-    function refresh() {
-      fs.readFile(filePath, 'utf-8', (err, data) => {
-        if (err) return;
-        pre.textContent = data.split('\\n').slice(-500).join('\\n');
-        window.scrollTo(0, document.body.scrollHeight);
+function mayOpen(wcId: number, path: string): boolean {
+  if (!isAbsolute(path) || !LOG_FILE.test(path)) return false;
+  const rel = relative(app.getPath("logs"), resolve(path));
+  const inLogsDir = rel !== "" && rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+  return inLogsDir || (granted.get(wcId)?.has(resolve(path)) ?? false);
+}
+
+function loadForViewer(wcId: number, paths: string[]): Promise<LoadedLogFile[]> {
+  return Promise.all(
+    paths.map((path) => {
+      if (mayOpen(wcId, path)) return loadLogFile(path);
+      log.warn("Refused to open", path);
+      return { path, entries: [], error: "Not a log file this window may open" };
+    })
+  );
+}
+
+async function loadLogFile(path: string): Promise<LoadedLogFile> {
+  const tooLarge = `File is larger than ${MAX_OPEN_BYTES / 1024 / 1024} MB`;
+  try {
+    const info = await stat(path);
+    if (!info.isFile()) throw new Error("Not a file");
+    if (info.size > MAX_OPEN_BYTES) throw new Error(tooLarge);
+
+    let buf = await readFile(path);
+    if (path.toLowerCase().endsWith(".gz")) {
+      // Capped so a small archive can't decompress until memory runs out.
+      buf = await gunzipAsync(buf, { maxOutputLength: MAX_OPEN_BYTES }).catch((err) => {
+        throw (err as NodeJS.ErrnoException)?.code === "ERR_BUFFER_TOO_LARGE" ? new Error(tooLarge) : err;
       });
     }
-    fs.watchFile(filePath, { interval: 1000 }, refresh);
-    refresh();
-  `;
-
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <title>Log Viewer</title>
-  <style>
-    body { background: #111; color: #0f0; font-family: monospace; margin: 0; padding: 1em; }
-    pre { white-space: pre-wrap; word-break: break-word; }
-  </style>
-</head>
-<body>
-  <pre id="log">${initialLogs}</pre>
-  <script>${watcherScript}</script>
-</body>
-</html>
-`;
+
+    const lines = buf.toString("utf-8").split(/\r?\n/);
+    return { path, entries: new LogParser(path).parse(lines) };
+  } catch (err) {
+    log.warn("Failed to open log file", path, err);
+    return { path, entries: [], error: (err as Error)?.message ?? String(err) };
+  }
+}
+
+function registerLogViewerIpc() {
+  if (ipcRegistered) return;
+  ipcRegistered = true;
+
+  ipcMain.handle(LogViewerChannels.Subscribe, async (event) => {
+    const wc: WebContents = event.sender;
+    if (!viewers.has(wc.id)) throw new Error("Not a log viewer window");
+
+    viewers.get(wc.id)?.stop();
+
+    const path = logFilePath();
+    const parser = new LogParser(path);
+    const send = (channel: LogViewerChannels, payload?: unknown) => {
+      if (!wc.isDestroyed()) wc.send(channel, payload);
+    };
+    const tail = new LogTail(path, {
+      onLines: (lines) => send(LogViewerChannels.Entries, parser.parse(lines)),
+      onRotate: () => send(LogViewerChannels.Rotated),
+    });
+    viewers.set(wc.id, tail);
+
+    log.info("Tailing", path);
+    const entries = parser.parse(await tail.start());
+    return { path, entries };
+  });
+
+  ipcMain.handle(LogViewerChannels.ListFiles, (event) => {
+    assertViewer(event);
+    return listLogFiles();
+  });
+
+  ipcMain.handle(LogViewerChannels.OpenFiles, async (event, paths?: unknown) => {
+    assertViewer(event);
+    let files = Array.isArray(paths) ? paths.filter((p): p is string => typeof p === "string") : [];
+
+    if (!Array.isArray(paths)) {
+      const win = BrowserWindow.fromWebContents(event.sender);
+      const opts: Electron.OpenDialogOptions = {
+        title: "Open Log Files",
+        defaultPath: app.getPath("logs"),
+        filters: [{ name: "Log files", extensions: ["log", "gz"] }],
+        properties: ["openFile", "multiSelections"],
+      };
+      const result = win ? await dialog.showOpenDialog(win, opts) : await dialog.showOpenDialog(opts);
+      if (result.canceled) return [];
+      files = result.filePaths;
+      grant(event.sender.id, files);
+    }
+
+    log.info("Opening log files", files);
+    return loadForViewer(event.sender.id, files);
+  });
+
+  // Paths come from the preload (webUtils.getPathForFile), which the page can't forge.
+  ipcMain.handle(LogViewerChannels.OpenDropped, async (event, paths: unknown) => {
+    assertViewer(event);
+    const files = Array.isArray(paths) ? paths.filter((p): p is string => typeof p === "string" && p !== "") : [];
+    grant(event.sender.id, files);
+    log.info("Opening dropped log files", files);
+    return loadForViewer(event.sender.id, files);
+  });
+
+  ipcMain.handle(LogViewerChannels.TakeRequested, async (event) => {
+    assertViewer(event);
+    const files = requested.get(event.sender.id) ?? [];
+    requested.delete(event.sender.id);
+    if (files.length) log.info("Opening requested log files", files);
+    return loadForViewer(event.sender.id, files);
+  });
+
+  ipcMain.handle(LogViewerChannels.Export, async (event, format: unknown, content: unknown) => {
+    assertViewer(event);
+    if ((format !== "text" && format !== "json") || typeof content !== "string") {
+      throw new Error("Invalid export request");
+    }
+
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const ext = format === "json" ? "json" : "log";
+    const opts: Electron.SaveDialogOptions = {
+      title: "Export Filtered Log",
+      defaultPath: `${app.getName()}-export-${new Date().toISOString().slice(0, 10)}.${ext}`,
+      filters: [{ name: format === "json" ? "JSON" : "Log", extensions: [ext] }],
+    };
+    const { canceled, filePath } = win ? await dialog.showSaveDialog(win, opts) : await dialog.showSaveDialog(opts);
+    if (canceled || !filePath) return null;
+
+    await writeFile(filePath, content, "utf-8");
+    log.info(`Exported filtered log (${format}) to`, basename(filePath));
+    return filePath;
+  });
+}
+
+/**
+ * Let `win` use the log viewer IPC. Called for every new "logs" window (see
+ * main/windowKinds.ts) before its page loads.
+ */
+export function attachLogViewer(win: BrowserWindow): void {
+  registerLogViewerIpc();
+  log.info("Opening log viewer for", logFilePath());
+
+  const wcId = win.webContents.id;
+  viewers.set(wcId, null);
+  win.webContents.once("destroyed", () => {
+    viewers.get(wcId)?.stop();
+    viewers.delete(wcId);
+    requested.delete(wcId);
+    granted.delete(wcId);
+  });
+}
+
+/**
+ * Queue `paths` for a log viewer window opened with `attachLogViewer`. The
+ * page takes them once loaded, or right away if it already is.
+ */
+export function showLogFiles(win: BrowserWindow, paths: string[]): void {
+  const wc = win.webContents;
+  if (!viewers.has(wc.id)) throw new Error("Not a log viewer window");
+  grant(wc.id, paths);
+  requested.set(wc.id, [...(requested.get(wc.id) ?? []), ...paths]);
+  if (!wc.isLoading()) wc.send(LogViewerChannels.FilesRequested);
 }
@@ -0,0 +1,34 @@
+// Preload for the log viewer only. It runs sandboxed, so at runtime it may
+// require nothing but `electron`; shared code is bundled in by Vite.
+import { contextBridge, ipcRenderer, IpcRendererEvent, webUtils } from "electron";
+import type { LogViewerApi } from "../shared/ipcBridge";
+import type { ParsedLogEntry } from "../shared/logParser";
+import { LogViewerChannels } from "../shared/ipcChannels";
+
+const api: LogViewerApi = {
+  subscribe: async ({ onEntries, onRotate }) => {
+    ipcRenderer.removeAllListeners(LogViewerChannels.Entries);
+    ipcRenderer.removeAllListeners(LogViewerChannels.Rotated);
+    ipcRenderer.on(LogViewerChannels.Entries, (_e: IpcRendererEvent, entries: ParsedLogEntry[]) => onEntries(entries));
+    ipcRenderer.on(LogViewerChannels.Rotated, () => onRotate());
+    return ipcRenderer.invoke(LogViewerChannels.Subscribe);
+  },
+
+  listFiles: () => ipcRenderer.invoke(LogViewerChannels.ListFiles),
+
+  openFiles: (paths) => ipcRenderer.invoke(LogViewerChannels.OpenFiles, paths),
+
+  openDroppedFiles: (files) =>
+    ipcRenderer.invoke(LogViewerChannels.OpenDropped, files.map((f) => webUtils.getPathForFile(f))),
+
+  exportEntries: (format, content) => ipcRenderer.invoke(LogViewerChannels.Export, format, content),
+
+  takeRequestedFiles: () => ipcRenderer.invoke(LogViewerChannels.TakeRequested),
+
+  onFilesRequested: (handler) => {
+    ipcRenderer.removeAllListeners(LogViewerChannels.FilesRequested);
+    ipcRenderer.on(LogViewerChannels.FilesRequested, () => handler());
+  },
+};
+
+contextBridge.exposeInMainWorld("logViewer", api);
@@ -1,104 +1,181 @@
 import { app, BrowserWindow } from "electron";
-import { fileURLToPath } from "node:url";
-import { dirname, join } from "node:path";
 import { registerIpc } from "./ipc";
+import { startLogLineEvents } from "./ipcEvents";
+import { installLogContext } from "./logContext";
+import { setupLogRetention } from "./logRetention";
 import { Logger } from "../shared/logger";
-import { loadConfig, isDev } from "../shared/config";
+import { isDev } from "../shared/config";
+import { describeConfig, loadConfig } from "./appConfig";
 import { WindowManager } from "./windowManager";
 import { setupErrorHandling } from "./errorHandling";
 import { createAppMenu } from "./menu";
+import { registerAppCommands } from "./appCommands";
+import { profiles } from "./profileService";
+import { setupTheme } from "./theme";
+import { createDiagnosticBundle } from "./diagnostics";
+import { SessionService } from "./session";
+import { LaunchRouter, registerProtocolClient } from "./launchRouter";
+import { TrayService } from "./tray";
+import { updates } from "./updateService";
+import { registerAppScheme, serveAppProtocol } from "./appProtocol";
+import { preferBuiltRenderers, rendererRoot } from "./rendererEntry";
+import { onEvent } from "./ipcEvents";
+import { Events } from "../shared/ipcChannels";
+import type { InitialWindowState } from "./windowManager";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-const config = loadConfig();
-
-// ---- Logging setup
-Logger.configure({
-  logsDir: app.getPath("logs"),
-  appName: app.getName() || config.appName,
-  level: config.logging.level,
-  consoleLevel: config.logging.consoleLevel,
-  capture: config.logging.captureUnhandled,
-});
-const log = Logger.get("main");
-
-const windows = new WindowManager();
-
-async function loadMain(win: BrowserWindow) {
-  try {
-    const devUrl = process.env.VITE_DEV_SERVER_URL;
-    if (isDev && devUrl) {
-      log.info("Loading dev URL:", devUrl);
-      await win.loadURL(devUrl);
-    } else {
-      const filePath = join(__dirname, "../dist/index.html");
-      log.info("Loading file:", filePath);
-      await win.loadFile(filePath);
-    }
-  } catch (err) {
-    log.error("Failed to load main window", err);
-  }
-}
+/** Everything the first (lock-holding) instance sets up; later instances never run it. */
+function startPrimaryInstance(): void {
+  const loadedConfig = loadConfig();
+  const { config } = loadedConfig;
 
-async function createMainWindow() {
-  registerIpc();
-  createAppMenu();
-
-  const preloadPath = isDev
-    ? join(__dirname, "../dist-electron/preload.cjs")
-    : join(__dirname, "preload.cjs");
-
-  windows.create(
-    {
-      id: "main",
-      width: config.windows.main.width,
-      height: config.windows.main.height,
-      webPreferences: {
-        contextIsolation: true,
-        nodeIntegration: false,
-        // IMPORTANT: no sandbox here (preload needs Node to run bundled code cleanly)
-        // sandbox: true,  // <- removed
-        preload: preloadPath,
-      },
-      show: false,
-    },
-    loadMain
+  // ---- Logging setup
+  const logsDir = app.getPath("logs");
+  const logAppName = app.getName() || config.appName;
+  Logger.configure({
+    logsDir,
+    appName: logAppName,
+    level: config.logging.level,
+    consoleLevel: config.logging.consoleLevel,
+    capture: config.logging.captureUnhandled,
+    format: config.logging.format,
+    maxSize: config.logging.retention.maxSizeMb * 1024 * 1024,
+  });
+  installLogContext();
+  setupLogRetention(logsDir, logAppName, config.logging.retention);
+  const log = Logger.get("main");
+  startLogLineEvents(config.logging.level);
+  for (const warning of loadedConfig.warnings) log.warn("Config:", warning);
+  log.info(
+    "Effective config",
+    Object.fromEntries(describeConfig(loadedConfig).entries.map((e) => [e.key, `${JSON.stringify(e.value)} (${e.source})`]))
   );
-}
 
-app.on("ready", async () => {
-  setupErrorHandling(false);
-  log.info("App ready", { version: app.getVersion(), dev: isDev });
-  await createMainWindow();
-});
+  // Privileged schemes can only be registered before "ready".
+  registerAppScheme();
+  preferBuiltRenderers(config.devAppProtocol);
 
-app.on("window-all-closed", () => {
-  if (process.platform !== "darwin") {
-    log.info("All windows closed; quitting.");
-    app.quit();
+  const session = new SessionService();
+  const windows: WindowManager = new WindowManager({
+    openDiagnostics: (win) => createDiagnosticBundle({ windows, config: loadedConfig }, win),
+    onChange: () => {
+      session.update(windows);
+      tray.update();
+    },
+  });
+
+  const mainWindowOptions = () => ({ width: config.windows.main.width, height: config.windows.main.height });
+
+  function createMainWindow(initialState?: InitialWindowState) {
+    windows.open("main", {}, { ...mainWindowOptions(), initialState });
+  }
+
+  const tray = new TrayService(windows, { openMain: () => createMainWindow() });
+
+  /** "Start minimized" starts in the tray when it is on, minimized otherwise. */
+  function startupWindowState(): InitialWindowState {
+    if (!profiles.settings().get().startMinimized) return "normal";
+    return tray.enabled ? "hidden" : "minimized";
   }
-});
-
-app.on("activate", () => {
-  if (BrowserWindow.getAllWindows().length === 0) {
-    log.info("Re-activating; creating main window.");
-    void createMainWindow();
-  } else {
-    windows.focus("main");
+
+  const router = new LaunchRouter((kind, params) => windows.open(kind, params, kind === "main" ? mainWindowOptions() : {}));
+
+  /** Reopen the previous run's windows, back to front, if enabled and safe. */
+  function restoreSession(initialState: InitialWindowState): boolean {
+    const previous = session.previousWindows();
+    if (!profiles.settings().get().restoreSession || !previous.length) return false;
+    if (session.previousCrashed && config.safeMode) {
+      log.warn("Previous session did not quit cleanly; safe mode is on, so windows are not restored");
+      return false;
+    }
+
+    log.info("Restoring previous session", { windows: previous, crashed: session.previousCrashed });
+    const opened = previous.map(({ kind, params }) =>
+      windows.open(kind, params, { ...(kind === "main" && mainWindowOptions()), initialState })
+    );
+    if (initialState !== "normal") return true;
+
+    // Windows show as their pages finish loading, in no particular order;
+    // restack them once all are visible.
+    void Promise.all(
+      opened.map((win) => new Promise<void>((resolve) => (win.isVisible() ? resolve() : win.once("show", () => resolve()))))
+    ).then(() => {
+      for (const win of opened) if (!win.isDestroyed()) win.moveTop();
+      opened.at(-1)?.focus();
+    });
+    return true;
   }
-});
-
-const gotTheLock = app.requestSingleInstanceLock();
-if (!gotTheLock) {
-  log.warn("Second instance detected; quitting.");
-  app.quit();
-} else {
-  app.on("second-instance", () => {
-    const w = BrowserWindow.getAllWindows()[0];
-    if (w) {
-      if (w.isMinimized()) w.restore();
-      w.focus();
+
+  app.on("ready", async () => {
+    setupErrorHandling(true);
+    log.info("App ready", { version: app.getVersion(), dev: isDev });
+    serveAppProtocol(rendererRoot);
+    setupTheme(profiles.settings().get().theme);
+    registerIpc(windows, loadedConfig);
+    registerAppCommands(windows, loadedConfig);
+    createAppMenu();
+    tray.setEnabled(profiles.settings().get().trayMode);
+    onEvent(Events.SettingsChanged, ({ settings }) => {
+      tray.setEnabled(settings.trayMode);
+      updates.setChannel(settings.updateChannel);
+    });
+    const initialState = startupWindowState();
+    if (!restoreSession(initialState)) createMainWindow(initialState);
+    session.start();
+    registerProtocolClient();
+    router.openArgs(process.argv, process.cwd());
+    router.ready();
+    updates.start(config, profiles.settings().get().updateChannel);
+  });
+
+  // macOS delivers links and Finder "Open With" through events, not argv.
+  app.on("open-url", (event, url) => {
+    event.preventDefault();
+    router.openUrl(url);
+  });
+  app.on("open-file", (event, path) => {
+    event.preventDefault();
+    router.openFiles([path]);
+  });
+
+  app.on("window-all-closed", () => {
+    if (tray.enabled) {
+      log.info("All windows closed; still running in the tray.");
+    } else if (process.platform !== "darwin") {
+      log.info("All windows closed; quitting.");
+      app.quit();
     }
   });
+
+  app.on("activate", () => {
+    if (BrowserWindow.getAllWindows().length === 0) {
+      log.info("Re-activating; creating main window.");
+      createMainWindow();
+    } else {
+      windows.focus("main");
+    }
+  });
+
+  // Later launches (`enigma file.log`, enigma:// links on Windows/Linux)
+  // forward their argv here, then exit.
+  app.on("second-instance", (_event, argv, cwd) => {
+    log.info("Second instance launched", { argv, cwd });
+    if (router.openArgs(argv, cwd)) return;
+
+    const top = windows.openWindows().at(-1);
+    const w = top ? windows.get(top.id) : null;
+    if (!w) {
+      createMainWindow();
+      return;
+    }
+    if (w.isMinimized()) w.restore();
+    if (!w.isVisible()) w.show(); // hidden to the tray
+    w.focus();
+  });
 }
+
+// Later launches hand their argv to the first instance ("second-instance"
+// above) and exit before any setup. Importing the modules above does no I/O
+// (loggers configure on first write, the profile index opens on first use),
+// so they never touch its logs, settings or userData/session.json.
+if (app.requestSingleInstanceLock()) startPrimaryInstance();
+else app.exit(0);
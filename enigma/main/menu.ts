@@ -1,35 +1,101 @@
 // main/menu.ts
 import {
   app,
+  BrowserWindow,
+  dialog,
   Menu,
-  MenuItem,
   MenuItemConstructorOptions,
-  shell,
 } from "electron";
 
-import { createLogViewerWindow } from "./logViewer"; // case-correct
+import { normalizeAccelerator } from "../shared/accelerators";
 import { Logger } from "../shared/logger";
-import { ConsoleMirror } from "../shared/consoleMirror";
+import { commands } from "./commands";
 
 const log = Logger.get("menu");
 
-export function createAppMenu(): void {
-  const isMac = process.platform === "darwin";
+type MenuRole = NonNullable<MenuItemConstructorOptions["role"]>;
+
+const isMac = process.platform === "darwin";
+
+/**
+ * Accelerators of the role items in the menu (Electron's defaults, set
+ * explicitly by `roleItem` so this stays the truth). Commands may not be
+ * bound to them; see `reservedAcceleratorOwner`.
+ */
+const ROLE_ACCELERATORS: Partial<Record<MenuRole, { label: string; accelerator: string }>> = {
+  ...(isMac
+    ? {
+        hide: { label: "Hide", accelerator: "Cmd+H" },
+        hideOthers: { label: "Hide Others", accelerator: "Cmd+Alt+H" },
+        quit: { label: "Quit", accelerator: "Cmd+Q" },
+        toggleDevTools: { label: "Toggle Developer Tools", accelerator: "Alt+Cmd+I" },
+        togglefullscreen: { label: "Toggle Full Screen", accelerator: "Ctrl+Cmd+F" },
+      }
+    : {
+        // Electron gives Quit no accelerator on Windows.
+        ...(process.platform !== "win32" && { quit: { label: "Quit", accelerator: "Ctrl+Q" } }),
+        toggleDevTools: { label: "Toggle Developer Tools", accelerator: "Ctrl+Shift+I" },
+        togglefullscreen: { label: "Toggle Full Screen", accelerator: "F11" },
+      }),
+  reload: { label: "Reload", accelerator: "CmdOrCtrl+R" },
+  forceReload: { label: "Force Reload", accelerator: "Shift+CmdOrCtrl+R" },
+  resetZoom: { label: "Actual Size", accelerator: "CmdOrCtrl+0" },
+  zoomIn: { label: "Zoom In", accelerator: "CmdOrCtrl+Plus" },
+  zoomOut: { label: "Zoom Out", accelerator: "CmdOrCtrl+-" },
+};
+
+function roleItem(role: MenuRole): MenuItemConstructorOptions {
+  const reserved = ROLE_ACCELERATORS[role];
+  return reserved ? { role, accelerator: reserved.accelerator } : { role };
+}
+
+/** Label of the built-in menu item already using `accelerator`, if any. */
+export function reservedAcceleratorOwner(accelerator: string): string | undefined {
+  const wanted = normalizeAccelerator(accelerator, process.platform);
+  return Object.values(ROLE_ACCELERATORS).find(
+    (r) => r && normalizeAccelerator(r.accelerator, process.platform) === wanted
+  )?.label;
+}
+
+/** Menu item for a registered command: label, accelerator and state come from the registry. */
+function commandItem(id: string): MenuItemConstructorOptions {
+  const command = commands.get(id);
+  if (!command) throw new Error(`Menu references unknown command: ${id}`);
+  const ctx = { win: BrowserWindow.getFocusedWindow() };
 
+  return {
+    id,
+    label: command.title,
+    accelerator: commands.effectiveAccelerator(id),
+    enabled: commands.isEnabled(id, ctx),
+    ...(command.checked && { type: "checkbox" as const, checked: command.checked(ctx) }),
+    click: async () => {
+      try {
+        await commands.run(id, { win: BrowserWindow.getFocusedWindow() });
+      } catch (err) {
+        log.error(`${command.title} failed`, err);
+        dialog.showErrorBox(command.title, `${(err as Error)?.message ?? err}`);
+      }
+    },
+  };
+}
+
+function buildMenu(): Menu {
   const macAppMenu: MenuItemConstructorOptions[] = isMac
     ? [
         {
           label: app.name,
           submenu: [
-            { role: "about" as const },
+            commandItem("help.about"),
+            commandItem("help.checkForUpdates"),
             { type: "separator" as const },
-            { role: "services" as const },
+            roleItem("services"),
             { type: "separator" as const },
-            { role: "hide" as const },
-            { role: "hideOthers" as const },
-            { role: "unhide" as const },
+            roleItem("hide"),
+            roleItem("hideOthers"),
+            roleItem("unhide"),
             { type: "separator" as const },
-            { role: "quit" as const },
+            roleItem("quit"),
           ],
         },
       ]
@@ -38,63 +104,66 @@ export function createAppMenu(): void {
   const template: MenuItemConstructorOptions[] = [
     ...macAppMenu,
 
-    { label: "File", submenu: [{ role: "quit" as const }] },
+    {
+      label: "File",
+      submenu: [
+        commandItem("app.settings"),
+        { type: "separator" as const },
+        commandItem("settings.export"),
+        commandItem("settings.import"),
+        commandItem("settings.reset"),
+        { type: "separator" as const },
+        roleItem("quit"),
+      ],
+    },
 
     {
       label: "View",
       submenu: [
-        { role: "reload" as const },
-        { role: "forceReload" as const },
+        commandItem("view.commandPalette"),
         { type: "separator" as const },
-        {
-          label: "Open Log Viewer",
-          accelerator: "Ctrl+L",
-          click: () => {
-            log.info("Opening Log Viewer");
-            createLogViewerWindow();
-          },
-        },
-        {
-          label: "Mirror Console Output",
-          type: "checkbox",
-          checked: false,
-          accelerator: "Ctrl+Shift+L",
-          click: (menuItem: MenuItem) => {
-            const enabled = menuItem.checked;
-            ConsoleMirror.toggle(enabled, "renderer-console");
-          },
-        },
+        roleItem("reload"),
+        roleItem("forceReload"),
         { type: "separator" as const },
-        { role: "toggleDevTools" as const },
-        { role: "resetZoom" as const },
-        { role: "zoomIn" as const },
-        { role: "zoomOut" as const },
+        commandItem("view.logViewer"),
+        commandItem("view.mirrorConsole"),
         { type: "separator" as const },
-        { role: "togglefullscreen" as const },
+        roleItem("toggleDevTools"),
+        commandItem("view.effectiveConfig"),
+        roleItem("resetZoom"),
+        roleItem("zoomIn"),
+        roleItem("zoomOut"),
+        { type: "separator" as const },
+        roleItem("togglefullscreen"),
       ],
     },
 
     {
       label: "Help",
       submenu: [
-        {
-          label: "Open Logs Folder",
-          click: async () => {
-            const dir = app.getPath("logs");
-            log.info("Opening logs folder:", dir);
-            await shell.openPath(dir);
-          },
-        },
-        {
-          label: "Learn More",
-          click: async () => {
-            await shell.openExternal("https://www.electronjs.org");
-          },
-        },
+        commandItem("help.openLogsFolder"),
+        commandItem("help.reportProblem"),
+        { type: "separator" as const },
+        commandItem("help.learnMore"),
+        ...(isMac
+          ? []
+          : [{ type: "separator" as const }, commandItem("help.checkForUpdates"), commandItem("help.about")]),
       ],
     },
   ];
 
-  const menu = Menu.buildFromTemplate(template);
-  Menu.setApplicationMenu(menu);
+  return Menu.buildFromTemplate(template);
+}
+
+/**
+ * Install the application menu, rebuilt whenever commands change (rebinding,
+ * toggles) or focus moves, so accelerators and enabled/checked state stay
+ * current.
+ */
+export function createAppMenu(): void {
+  const apply = () => Menu.setApplicationMenu(buildMenu());
+  commands.onChange(apply);
+  app.on("browser-window-focus", apply);
+  app.on("browser-window-blur", apply);
+  apply();
 }
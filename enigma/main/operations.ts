@@ -0,0 +1,179 @@
+// main/operations.ts
+import { BrowserWindow } from "electron";
+import { ipcMain } from "electron-better-ipc";
+import {
+  IpcOperationContract,
+  OperationCancelSchema,
+  OperationChannels,
+  OperationParsedRequest,
+  OperationProgress,
+  OperationResult,
+  OperationSchemas,
+  OperationStartSchema,
+} from "../shared/ipcChannels";
+import { IpcResult, ipcFail, ipcOk, toIpcIssues } from "../shared/ipcResult";
+import { Logger } from "../shared/logger";
+import { runWithLogMeta } from "./logContext";
+
+const log = Logger.get("operations");
+
+export interface OperationContext<O extends keyof IpcOperationContract> {
+  /** Cancellation token: aborted on renderer request or when the owning window closes. */
+  signal: AbortSignal;
+  /** Report incremental progress/partial results to the caller. */
+  progress(update: OperationProgress<O>): void;
+  win: BrowserWindow;
+}
+
+type OperationHandler<O extends keyof IpcOperationContract> = (
+  payload: OperationParsedRequest<O>,
+  ctx: OperationContext<O>
+) => Promise<OperationResult<O>>;
+
+/** Cancels for ids not started yet, kept so a start racing its cancel still stops. */
+const MAX_EARLY_CANCELS = 100;
+
+interface RunningOperation {
+  op: keyof IpcOperationContract;
+  ownerId: number;
+  controller: AbortController;
+  startedAt: number;
+}
+
+/**
+ * Tracks in-flight long-running operations by id so they can be cancelled
+ * individually, or all at once when their owning window goes away.
+ */
+export class OperationRegistry {
+  private handlers: { [O in keyof IpcOperationContract]?: OperationHandler<O> } = {};
+  private running = new Map<string, RunningOperation>();
+  private watchedOwners = new Set<number>();
+  /** Operation id -> window that cancelled it before main saw it start. */
+  private earlyCancels = new Map<string, number>();
+  private installed = false;
+
+  register<O extends keyof IpcOperationContract>(op: O, handler: OperationHandler<O>) {
+    this.handlers[op] = handler;
+  }
+
+  install() {
+    if (this.installed) return;
+    this.installed = true;
+
+    ipcMain.answerRenderer(OperationChannels.Start, (incoming: unknown, win: BrowserWindow) => {
+      // The operation id is the correlation id for everything the handler logs.
+      const id = (incoming as { id?: unknown } | null)?.id;
+      const meta = typeof id === "string" ? { correlationId: id, windowId: win.id } : { windowId: win.id };
+      return runWithLogMeta(meta, () => this.start(incoming, win));
+    });
+
+    ipcMain.answerRenderer(OperationChannels.Cancel, (incoming: unknown, win: BrowserWindow) => {
+      const parsed = OperationCancelSchema.safeParse(incoming);
+      if (parsed.success) this.cancelFrom(win, parsed.data.id);
+    });
+  }
+
+  /** A window may only cancel its own operations, including ones still on their way. */
+  private cancelFrom(win: BrowserWindow, id: string) {
+    const entry = this.running.get(id);
+    if (entry) {
+      if (entry.ownerId !== win.id) {
+        log.warn(`Window ${win.id} tried to cancel ${entry.op} (${id}) owned by window ${entry.ownerId}`);
+        return;
+      }
+      this.cancel(id, "cancelled by renderer");
+      return;
+    }
+    this.earlyCancels.set(id, win.id);
+    if (this.earlyCancels.size > MAX_EARLY_CANCELS) {
+      this.earlyCancels.delete(this.earlyCancels.keys().next().value!);
+    }
+  }
+
+  cancel(id: string, reason: string) {
+    const entry = this.running.get(id);
+    if (!entry) return;
+    log.info(`Cancelling ${entry.op} (${id}): ${reason}`);
+    entry.controller.abort(reason);
+  }
+
+  cancelAllFor(ownerId: number, reason: string) {
+    for (const [id, entry] of this.running) {
+      if (entry.ownerId === ownerId) this.cancel(id, reason);
+    }
+  }
+
+  list() {
+    return [...this.running].map(([id, { op, ownerId, startedAt }]) => ({ id, op, ownerId, startedAt }));
+  }
+
+  private watchOwner(win: BrowserWindow) {
+    if (this.watchedOwners.has(win.id)) return;
+    const ownerId = win.id;
+    this.watchedOwners.add(ownerId);
+    win.once("closed", () => {
+      this.watchedOwners.delete(ownerId);
+      this.cancelAllFor(ownerId, "owning window closed");
+    });
+  }
+
+  private async start(incoming: unknown, win: BrowserWindow): Promise<IpcResult<unknown>> {
+    const start = OperationStartSchema.safeParse(incoming);
+    if (!start.success) {
+      return ipcFail("INVALID_REQUEST", "Invalid operation start request", toIpcIssues(start.error));
+    }
+
+    const { id, op, payload } = start.data;
+    const handler = this.handlers[op];
+    if (!handler) return ipcFail("UNKNOWN_CHANNEL", `No handler for operation ${op}`);
+    if (this.running.has(id)) return ipcFail("INVALID_REQUEST", `Operation id already in use: ${id}`);
+    if (this.earlyCancels.get(id) === win.id) {
+      this.earlyCancels.delete(id);
+      log.info(`${op} (${id}) was cancelled before it started`);
+      return ipcFail("CANCELLED", `${op} was cancelled`);
+    }
+
+    const schemas = OperationSchemas[op];
+    const req = schemas.req.safeParse(payload ?? {});
+    if (!req.success) {
+      log.warn(`${op}: rejected invalid payload`, req.error.issues);
+      return ipcFail("INVALID_REQUEST", `Invalid payload for ${op}`, toIpcIssues(req.error));
+    }
+
+    const controller = new AbortController();
+    this.running.set(id, { op, ownerId: win.id, controller, startedAt: Date.now() });
+    this.watchOwner(win);
+    log.info(`Started ${op} (${id})`);
+
+    const progress = (update: unknown) => {
+      if (controller.signal.aborted || win.isDestroyed()) return;
+      const parsed = schemas.progress.safeParse(update);
+      if (!parsed.success) {
+        log.warn(`${op}: dropped invalid progress update`, parsed.error.issues);
+        return;
+      }
+      win.webContents.send(OperationChannels.Progress, { id, progress: parsed.data });
+    };
+
+    try {
+      const result = await handler(req.data, { signal: controller.signal, progress, win });
+      if (controller.signal.aborted) return ipcFail("CANCELLED", `${op} was cancelled`);
+
+      const res = schemas.res.safeParse(result);
+      if (!res.success) {
+        log.error(`${op}: handler returned an invalid result`, res.error.issues);
+        return ipcFail("INVALID_RESPONSE", `Invalid result from ${op}`, toIpcIssues(res.error));
+      }
+      return ipcOk(res.data);
+    } catch (err) {
+      if (controller.signal.aborted) return ipcFail("CANCELLED", `${op} was cancelled`);
+      log.error(`${op}: handler failed`, err);
+      return ipcFail("HANDLER_ERROR", (err as Error)?.message ?? String(err));
+    } finally {
+      this.running.delete(id);
+      log.debug(`Finished ${op} (${id})`);
+    }
+  }
+}
+
+export const operations = new OperationRegistry();
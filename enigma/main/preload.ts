@@ -1,7 +1,52 @@
-import { contextBridge } from "electron";
+import { contextBridge, IpcRendererEvent } from "electron";
 import { ipcRenderer } from "electron-better-ipc";
+import { EnigmaApi, isAllowedChannel, isAllowedEvent, isAllowedOperation } from "../shared/ipcBridge";
+import { LogChannels, OperationChannels } from "../shared/ipcChannels";
+import { IpcResult, ipcFail } from "../shared/ipcResult";
 
-contextBridge.exposeInMainWorld("api", {
-  call: <TRes = unknown>(channel: string, payload?: unknown) =>
-    ipcRenderer.callMain<TRes>(channel, payload),
-});
+// Only channels/events named in the shared contract may cross the bridge;
+// anything else is refused here, before it reaches the main process.
+const api: EnigmaApi = {
+  call: (channel, payload, meta = {}) => {
+    if (!isAllowedChannel(channel)) {
+      return Promise.resolve(ipcFail("UNKNOWN_CHANNEL", `Channel not allowed: ${String(channel)}`));
+    }
+    return ipcRenderer.callMain<unknown, IpcResult<unknown>>(channel, { payload, meta });
+  },
+
+  on: (event, listener) => {
+    if (!isAllowedEvent(event)) {
+      throw new Error(`Event not allowed: ${String(event)}`);
+    }
+    const wrapped = (_event: IpcRendererEvent, payload: unknown) => listener(payload);
+    ipcRenderer.on(event, wrapped);
+    return () => {
+      ipcRenderer.removeListener(event, wrapped);
+    };
+  },
+
+  startOperation: async (op, id, payload, onProgress) => {
+    if (!isAllowedOperation(op)) {
+      return ipcFail("UNKNOWN_CHANNEL", `Operation not allowed: ${String(op)}`);
+    }
+    const listener = (_event: IpcRendererEvent, message: { id?: string; progress?: unknown }) => {
+      if (message?.id === id) onProgress(message.progress);
+    };
+    ipcRenderer.on(OperationChannels.Progress, listener);
+    try {
+      return await ipcRenderer.callMain<unknown, IpcResult<unknown>>(OperationChannels.Start, { id, op, payload });
+    } finally {
+      ipcRenderer.removeListener(OperationChannels.Progress, listener);
+    }
+  },
+
+  cancelOperation: async (id) => {
+    await ipcRenderer.callMain(OperationChannels.Cancel, { id });
+  },
+
+  sendLogs: async (batch) => {
+    await ipcRenderer.callMain(LogChannels.Forward, batch);
+  },
+};
+
+contextBridge.exposeInMainWorld("api", api);
@@ -0,0 +1,166 @@
+// main/profileService.ts
+import Store from 'electron-store';
+import { randomUUID } from 'node:crypto';
+import { existsSync, readdirSync, unlinkSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+import { ProfileNameSchema } from '@shared/settingsSchema';
+import { Logger } from '../shared/logger';
+import { isSettingsBackup, SettingsService } from './settingsService';
+
+/** Profile whose settings live in the original `settings.json`, so existing data is kept. */
+const DEFAULT_PROFILE_ID = 'default';
+
+const ProfileIndexSchema = z.object({
+  activeId: z.string(),
+  profiles: z.array(z.object({ id: z.string(), name: ProfileNameSchema })).min(1),
+});
+
+type ProfileIndex = z.infer<typeof ProfileIndexSchema>;
+
+const log = Logger.get('profiles');
+
+export interface ProfilesSnapshot {
+  active: string;
+  profiles: string[];
+}
+
+/**
+ * Named settings profiles. Each profile is a separate, independently migrated
+ * settings file; a small index store maps names to files and records which
+ * one is active. Names are what the user sees and may change; ids never do.
+ */
+export class ProfileService {
+  private opened: Store<ProfileIndex> | undefined;
+  private services = new Map<string, SettingsService>();
+
+  /**
+   * The index store, opened (and repaired if invalid) on first use rather
+   * than on import, so a second instance that exits on the single-instance
+   * lock never reads or rewrites it.
+   */
+  private get index(): Store<ProfileIndex> {
+    if (this.opened) return this.opened;
+    const index = (this.opened = new Store<ProfileIndex>({ name: 'profiles' }));
+
+    const parsed = ProfileIndexSchema.safeParse(index.store);
+    if (!parsed.success) {
+      log.warn('Profile index missing or invalid; starting with the default profile');
+      index.store = { activeId: DEFAULT_PROFILE_ID, profiles: [{ id: DEFAULT_PROFILE_ID, name: 'default' }] };
+    } else if (!parsed.data.profiles.some((p) => p.id === parsed.data.activeId)) {
+      log.warn(`Active profile ${parsed.data.activeId} no longer exists; falling back`);
+      index.set('activeId', parsed.data.profiles[0].id);
+    }
+    return index;
+  }
+
+  private storeName(id: string) {
+    return id === DEFAULT_PROFILE_ID ? 'settings' : `settings.${id}`;
+  }
+
+  private service(id: string): SettingsService {
+    let svc = this.services.get(id);
+    if (!svc) {
+      svc = new SettingsService(this.storeName(id));
+      this.services.set(id, svc);
+    }
+    return svc;
+  }
+
+  private find(name: string) {
+    const key = name.trim().toLowerCase();
+    return this.index.get('profiles').find((p) => p.name.toLowerCase() === key);
+  }
+
+  private require(name: string) {
+    const profile = this.find(name);
+    if (!profile) throw new Error(`Profile "${name}" does not exist`);
+    return profile;
+  }
+
+  private assertFree(name: string) {
+    if (this.find(name)) throw new Error(`Profile "${name}" already exists`);
+  }
+
+  /** Settings of the active profile. */
+  settings(): SettingsService {
+    return this.service(this.index.get('activeId'));
+  }
+
+  snapshot(): ProfilesSnapshot {
+    const { activeId, profiles } = this.index.store;
+    return {
+      active: profiles.find((p) => p.id === activeId)!.name,
+      profiles: profiles.map((p) => p.name),
+    };
+  }
+
+  /** Create a profile with default settings. */
+  create(name: string): ProfilesSnapshot {
+    name = ProfileNameSchema.parse(name);
+    this.assertFree(name);
+    const id = randomUUID();
+    this.service(id).reset();
+    this.index.set('profiles', [...this.index.get('profiles'), { id, name }]);
+    log.info(`Created profile "${name}"`);
+    return this.snapshot();
+  }
+
+  clone(source: string, name: string): ProfilesSnapshot {
+    name = ProfileNameSchema.parse(name);
+    const from = this.require(source);
+    this.assertFree(name);
+    const id = randomUUID();
+    this.service(id).replace(this.service(from.id).get());
+    this.index.set('profiles', [...this.index.get('profiles'), { id, name }]);
+    log.info(`Cloned profile "${from.name}" as "${name}"`);
+    return this.snapshot();
+  }
+
+  rename(from: string, to: string): ProfilesSnapshot {
+    to = ProfileNameSchema.parse(to);
+    const profile = this.require(from);
+    const clash = this.find(to);
+    if (clash && clash.id !== profile.id) throw new Error(`Profile "${to}" already exists`);
+    this.index.set(
+      'profiles',
+      this.index.get('profiles').map((p) => (p.id === profile.id ? { ...p, name: to } : p))
+    );
+    log.info(`Renamed profile "${profile.name}" to "${to}"`);
+    return this.snapshot();
+  }
+
+  delete(name: string): ProfilesSnapshot {
+    const profile = this.require(name);
+    if (profile.id === this.index.get('activeId')) {
+      throw new Error('Cannot delete the active profile; switch to another one first');
+    }
+
+    // Not via this.service(): opening the store would migrate (and back up) the file first.
+    this.services.delete(profile.id);
+    this.index.set('profiles', this.index.get('profiles').filter((p) => p.id !== profile.id));
+    const storeName = this.storeName(profile.id);
+    // Profile stores sit next to the index (electron-store's default directory).
+    const dir = dirname(this.index.path);
+    try {
+      const backups = readdirSync(dir).filter((f) => isSettingsBackup(f, storeName));
+      for (const file of [`${storeName}.json`, ...backups]) {
+        const path = join(dir, file);
+        if (existsSync(path)) unlinkSync(path);
+      }
+    } catch (err) {
+      log.warn(`Failed to remove settings files for "${profile.name}"`, err);
+    }
+    log.info(`Deleted profile "${profile.name}"`);
+    return this.snapshot();
+  }
+
+  switch(name: string): ProfilesSnapshot {
+    const profile = this.require(name);
+    this.index.set('activeId', profile.id);
+    log.info(`Switched to profile "${profile.name}"`);
+    return this.snapshot();
+  }
+}
+
+export const profiles = new ProfileService();
@@ -0,0 +1,56 @@
+// main/rendererEntry.ts
+import { BrowserWindow } from "electron";
+import { fileURLToPath } from "node:url";
+import { dirname, join } from "node:path";
+import { isDev } from "../shared/config";
+import { Logger } from "../shared/logger";
+import { appUrl } from "./appProtocol";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const log = Logger.get("renderer-entry");
+
+/** Renderer pages built by Vite; each is `renderer/<name>/index.html`. */
+export type RendererEntry = "main" | "settings" | "logs" | "crashed" | "config" | "about";
+
+export type PreloadName = "preload" | "logViewerPreload";
+
+/** Bundled preload script by name (see the PRELOAD entries in vite.config.mts). */
+export function preloadPath(name: PreloadName = "preload"): string {
+  return isDev
+    ? join(__dirname, `../dist-electron/${name}.cjs`)
+    : join(__dirname, `${name}.cjs`);
+}
+
+/** Vite's renderer build output, served over app:// (see main/appProtocol.ts). */
+export const rendererRoot = join(__dirname, "../dist");
+
+let useDevServer = true;
+
+/** Under `vite`, load pages from `rendererRoot` over app:// instead of the dev server. */
+export function preferBuiltRenderers(enabled: boolean): void {
+  useDevServer = !enabled;
+}
+
+/**
+ * Load a renderer page from the Vite dev server, or from `dist/` over
+ * app://. `query` becomes the page's `location.search` either way.
+ */
+export async function loadRenderer(
+  win: BrowserWindow,
+  entry: RendererEntry,
+  query: Record<string, string> = {}
+): Promise<void> {
+  const devUrl = process.env.VITE_DEV_SERVER_URL;
+  if (isDev && devUrl && useDevServer) {
+    const url = new URL(`${entry}/index.html`, devUrl);
+    for (const [key, value] of Object.entries(query)) url.searchParams.set(key, value);
+    log.info("Loading dev URL:", url.toString());
+    await win.loadURL(url.toString());
+  } else {
+    const url = appUrl(`${entry}/index.html`, query);
+    log.info("Loading app URL:", url);
+    await win.loadURL(url);
+  }
+}
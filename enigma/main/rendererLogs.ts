@@ -0,0 +1,73 @@
+// main/rendererLogs.ts
+import { BrowserWindow } from "electron";
+import { ipcMain } from "electron-better-ipc";
+import { LogChannels, RendererLogBatchSchema } from "../shared/ipcChannels";
+import { Logger } from "../shared/logger";
+
+const log = Logger.get("renderer-logs");
+
+/** Sustained entries per second written for one window; bursts up to LOG_BURST. */
+const LOG_RATE_PER_SECOND = 200;
+const LOG_BURST = 500;
+
+/** Token bucket per window, plus entries dropped since the last report. */
+interface LogBudget {
+  tokens: number;
+  refilledAt: number;
+  dropped: number;
+}
+
+const budgets = new Map<number, LogBudget>();
+
+function budgetFor(win: BrowserWindow): LogBudget {
+  let budget = budgets.get(win.id);
+  if (!budget) {
+    budget = { tokens: LOG_BURST, refilledAt: Date.now(), dropped: 0 };
+    budgets.set(win.id, budget);
+    const id = win.id;
+    win.once("closed", () => budgets.delete(id));
+  }
+  const now = Date.now();
+  budget.tokens = Math.min(LOG_BURST, budget.tokens + ((now - budget.refilledAt) / 1000) * LOG_RATE_PER_SECOND);
+  budget.refilledAt = now;
+  return budget;
+}
+
+/**
+ * Accept batches from shared/logForwarder.ts and write them to the main log,
+ * tagged with the originating window. Entries keep their renderer timestamp,
+ * context and correlation id. The forwarder limits its own rate, but a
+ * renderer can call the channel directly, so main enforces a budget per
+ * window too and reports what it dropped as a single entry.
+ */
+export function registerRendererLogSink(): void {
+  ipcMain.answerRenderer(LogChannels.Forward, (incoming: unknown, win: BrowserWindow) => {
+    const budget = budgetFor(win);
+    const batch = RendererLogBatchSchema.safeParse(incoming);
+    if (!batch.success) {
+      if (budget.tokens >= 1) {
+        budget.tokens--;
+        log.warn(`Rejected malformed log batch from window ${win.id}`);
+      }
+      return;
+    }
+
+    const { entries, dropped } = batch.data;
+    const accepted = Math.min(entries.length, Math.floor(budget.tokens));
+    budget.tokens -= accepted;
+    budget.dropped += dropped + entries.length - accepted;
+
+    for (const { ts, level, context, message, args = [], correlationId } of entries.slice(0, accepted)) {
+      Logger.get(`${context ?? "renderer"}@w${win.id}`)
+        .with({ process: "renderer", windowId: win.id, ts, correlationId })
+        [level](message, ...args);
+    }
+
+    // Reported once there is budget again, so a flood yields one line, not one per batch.
+    if (budget.dropped && budget.tokens >= 1) {
+      budget.tokens--;
+      log.warn(`Window ${win.id} dropped ${budget.dropped} log entries (rate limit or main busy)`);
+      budget.dropped = 0;
+    }
+  });
+}
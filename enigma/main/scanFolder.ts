@@ -0,0 +1,48 @@
+// main/scanFolder.ts
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { Operations } from "../shared/ipcChannels";
+import type { OperationContext } from "./operations";
+
+const PROGRESS_EVERY = 200;
+
+/** Walk a folder tree, counting files/dirs/bytes; honours cancellation between entries. */
+export async function scanFolder(
+  { path, maxDepth }: { path: string; maxDepth?: number },
+  { signal, progress }: OperationContext<Operations.ScanFolder>
+) {
+  const totals = { files: 0, dirs: 0, bytes: 0 };
+  const pending: { dir: string; depth: number }[] = [{ dir: path, depth: 0 }];
+
+  while (pending.length) {
+    signal.throwIfAborted();
+    const { dir, depth } = pending.pop()!;
+    totals.dirs++;
+
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      continue; // unreadable folder: skip, keep scanning
+    }
+
+    for (const entry of entries) {
+      signal.throwIfAborted();
+      const full = join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (maxDepth === undefined || depth < maxDepth) pending.push({ dir: full, depth: depth + 1 });
+      } else if (entry.isFile()) {
+        totals.files++;
+        try {
+          totals.bytes += (await stat(full)).size;
+        } catch {
+          // vanished or unreadable; count it but not its size
+        }
+        if (totals.files % PROGRESS_EVERY === 0) progress({ ...totals, current: full });
+      }
+    }
+  }
+
+  return totals;
+}
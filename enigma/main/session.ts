@@ -0,0 +1,110 @@
+// main/session.ts
+import { app } from "electron";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+import { Logger } from "../shared/logger";
+import { writeJsonAtomic } from "./atomicWrite";
+import { windowKinds, type WindowKind } from "./windowKinds";
+import type { OpenWindowInfo, WindowManager } from "./windowManager";
+
+const log = Logger.get("session");
+
+const WRITE_DEBOUNCE_MS = 500;
+
+const SessionFileSchema = z.object({
+  /** Set while the app runs; still true on the next launch means it didn't quit cleanly. */
+  running: z.boolean(),
+  updatedAt: z.string(),
+  /** Back to front, so reopening in order restores the stacking. */
+  windows: z.array(
+    z.object({
+      kind: z.enum(Object.keys(windowKinds) as [WindowKind, ...WindowKind[]]),
+      params: z.record(z.string(), z.string()).default({}),
+    })
+  ),
+});
+
+type SessionFile = z.infer<typeof SessionFileSchema>;
+export type SessionWindow = SessionFile["windows"][number];
+
+/**
+ * Records which windows are open (kind, params, z-order) in
+ * userData/session.json so the next launch can reopen them, and whether
+ * the last run ended cleanly.
+ */
+export class SessionService {
+  private readonly path = join(app.getPath("userData"), "session.json");
+  private readonly previous: SessionFile | null;
+  private windows: SessionWindow[] = [];
+  private pendingWrite: NodeJS.Timeout | undefined;
+  private quitting = false;
+
+  constructor() {
+    this.previous = this.read();
+    this.windows = this.previousWindows();
+  }
+
+  private read(): SessionFile | null {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(this.path, "utf-8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") log.warn("Ignoring unreadable session file", err);
+      return null;
+    }
+    const parsed = SessionFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      log.warn("Ignoring invalid session file", parsed.error.issues);
+      return null;
+    }
+    return parsed.data;
+  }
+
+  /** The previous run never reached a clean quit (crash, kill, power loss). */
+  get previousCrashed(): boolean {
+    return this.previous?.running ?? false;
+  }
+
+  /** Windows open at the end of the previous run, back to front. */
+  previousWindows(): SessionWindow[] {
+    return this.previous?.windows ?? [];
+  }
+
+  /** Mark this run as started and keep the file in step with `windows` until quit. */
+  start(): void {
+    this.write(true);
+
+    // Windows close one by one after before-quit; freeze the list first so
+    // the session records what was open, not what was left.
+    app.on("before-quit", () => {
+      this.quitting = true;
+    });
+    app.on("will-quit", () => {
+      clearTimeout(this.pendingWrite);
+      this.write(false);
+    });
+  }
+
+  /** Call on every window open/close/focus (WindowManager's `onChange`). */
+  update(windows: WindowManager): void {
+    if (this.quitting) return;
+    const open = windows.openWindows();
+    // Closing the last window ends the session (or, on macOS, idles the
+    // app); keep what was open so it can be restored.
+    if (!open.length) return;
+    this.windows = open.map(({ kind, params }: OpenWindowInfo) => ({ kind, params }));
+
+    clearTimeout(this.pendingWrite);
+    this.pendingWrite = setTimeout(() => this.write(true), WRITE_DEBOUNCE_MS);
+  }
+
+  private write(running: boolean) {
+    const data: SessionFile = { running, updatedAt: new Date().toISOString(), windows: this.windows };
+    try {
+      writeJsonAtomic(this.path, data);
+    } catch (err) {
+      log.warn("Failed to write session file", err);
+    }
+  }
+}
@@ -1,46 +1,127 @@
 // main/settingsService.ts
 import Store from 'electron-store';
+import { copyFileSync, existsSync } from 'node:fs';
 import { Settings, SettingsSchema } from '@shared/settingsSchema';
+import {
+  SCHEMA_VERSION_KEY,
+  SETTINGS_SCHEMA_VERSION,
+  migrateSettings,
+} from '@shared/settingsMigrations';
+import { Logger } from '../shared/logger';
+
+type StoredSettings = Settings & { [SCHEMA_VERSION_KEY]: number };
+
+const log = Logger.get('settings');
+
+const backupSuffix = (fromVersion: number, ts: number) => `.v${fromVersion}.${ts}.bak.json`;
+
+/** Whether `fileName` is a pre-migration backup of the store named `storeName` (see `backup`). */
+export function isSettingsBackup(fileName: string, storeName: string): boolean {
+  if (!fileName.startsWith(storeName)) return false;
+  return /^\.v\d+\.\d+\.bak\.json$/.test(fileName.slice(storeName.length));
+}
+
+/** Top-level key order differs once kept keys are merged back in; it doesn't count as a change. */
+function sortKeys(source: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(source).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function pickKeys(source: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.map((k) => [k, source[k]]));
+}
 
 export class SettingsService {
-  private store: Store<Settings>;
-
-  constructor() {
-    // Validate on load
-    this.store = new Store<Settings>({
-      name: 'settings',
-      // electron-store v11 doesn't directly accept Zod; we validate manually.
-      // Keep JSON schema minimal if you want electron-store-side validation too.
-      migrations: {
-        '1.0.0': (store) => {
-          // Example migration: ensure theme default is applied
-          const data = store.store as any;
-          if (!data || !data.theme) {
-            store.set('theme', 'dark');
-          }
-        },
-      },
+  private store: Store<StoredSettings>;
+
+  /** @param storeName electron-store file name (without `.json`), one per profile. */
+  constructor(storeName = 'settings') {
+    // electron-store v11 doesn't directly accept Zod; we validate manually.
+    // Its own `migrations` option keys off the app version, so schema
+    // versioning is handled by shared/settingsMigrations instead.
+    this.store = new Store<StoredSettings>({ name: storeName });
+    this.migrate();
+  }
+
+  /** Absolute path of the backing JSON file. */
+  get path(): string {
+    return this.store.path;
+  }
+
+  private migrate() {
+    const raw = { ...(this.store.store as Record<string, unknown>) };
+    const report = migrateSettings(raw);
+    // A newer build's keys are kept, so downgrading and upgrading again loses nothing.
+    const newer = report.fromVersion > SETTINGS_SCHEMA_VERSION;
+    const next: StoredSettings = {
+      ...(newer ? pickKeys(raw, report.droppedKeys) : {}),
+      ...report.settings,
+      [SCHEMA_VERSION_KEY]: report.toVersion,
+    };
+
+    if (newer) {
+      log.warn(
+        `Settings were written by a newer schema (v${report.fromVersion} > v${SETTINGS_SCHEMA_VERSION}); unknown keys are kept but not used`
+      );
+    }
+    if (JSON.stringify(sortKeys(raw)) === JSON.stringify(sortKeys(next))) return;
+
+    this.backup(report.fromVersion);
+    for (const step of report.applied) log.info('Applied settings migration', step);
+    if (report.resetFields.length) log.warn('Reset invalid settings to defaults:', report.resetFields);
+    if (report.droppedKeys.length && !newer) log.warn('Dropped unknown settings keys:', report.droppedKeys);
+    log.info(`Settings migrated v${report.fromVersion} -> v${report.toVersion}`, {
+      before: raw,
+      after: next,
     });
 
-    // Run Zod validation and coerce defaults if needed
-    const parsed = SettingsSchema.safeParse(this.store.store || {});
-    if (!parsed.success) {
-      // Reset invalid store to defaults
-      this.store.store = SettingsSchema.parse({});
-    } else {
-      // Ensure defaults applied to partial data
-      this.store.store = { ...SettingsSchema.parse(parsed.data) };
+    this.store.store = next;
+  }
+
+  /** Copy the current file aside before it is rewritten by a migration. */
+  private backup(fromVersion: number) {
+    const src = this.store.path;
+    if (!existsSync(src)) return;
+    const dest = src.replace(/\.json$/, backupSuffix(fromVersion, Date.now()));
+    try {
+      copyFileSync(src, dest);
+      log.info('Backed up settings before migration to', dest);
+    } catch (err) {
+      log.warn('Failed to back up settings before migration', err);
     }
   }
 
+  /** Schema version of the data currently on disk. */
+  version(): number {
+    return this.store.get(SCHEMA_VERSION_KEY);
+  }
+
   get(): Settings {
-    return this.store.store;
+    return SettingsSchema.parse(this.store.store);
   }
 
   save(patch: Partial<Settings>): Settings {
-    const merged = { ...this.store.store, ...patch, lastOpenedAt: Date.now() };
+    const merged = { ...this.get(), ...patch, lastOpenedAt: Date.now() };
     const parsed = SettingsSchema.parse(merged);
-    this.store.store = parsed;
+    this.store.store = { ...this.newerKeys(), ...parsed, [SCHEMA_VERSION_KEY]: this.version() };
     return parsed;
   }
+
+  /** Keys only a newer schema knows, carried along while the data stays at that version. */
+  private newerKeys(): Record<string, unknown> {
+    if (this.version() <= SETTINGS_SCHEMA_VERSION) return {};
+    const stored = this.store.store as Record<string, unknown>;
+    const known = SettingsSchema.shape;
+    return pickKeys(stored, Object.keys(stored).filter((k) => k !== SCHEMA_VERSION_KEY && !(k in known)));
+  }
+
+  /** Overwrite every setting (import/reset); already-validated data only. */
+  replace(next: Settings): Settings {
+    const parsed = SettingsSchema.parse(next);
+    this.store.store = { ...parsed, [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION };
+    return parsed;
+  }
+
+  reset(): Settings {
+    return this.replace(SettingsSchema.parse({}));
+  }
 }
@@ -0,0 +1,148 @@
+// main/settingsTransfer.ts
+import { app, BrowserWindow, dialog } from "electron";
+import { readFile, writeFile } from "node:fs/promises";
+import { z } from "zod";
+import { Events, ExportSettingsRes, ImportSettingsRes, ResetSettingsRes, SettingsChange } from "../shared/ipcChannels";
+import { Settings } from "../shared/settingsSchema";
+import { SCHEMA_VERSION_KEY, migrateSettings } from "../shared/settingsMigrations";
+import { Logger } from "../shared/logger";
+import { SettingsService } from "./settingsService";
+import { broadcast } from "./ipcEvents";
+
+const log = Logger.get("settings-transfer");
+
+const FILE_FILTERS = [{ name: "Enigma settings", extensions: ["json"] }];
+
+/** On-disk format of an exported settings file. */
+const SettingsExportSchema = z.object({
+  format: z.literal("enigma-settings"),
+  schemaVersion: z.number().int().min(0),
+  exportedAt: z.string(),
+  appVersion: z.string(),
+  settings: z.record(z.string(), z.unknown()),
+});
+
+type SettingsExport = z.infer<typeof SettingsExportSchema>;
+
+export function diffSettings(before: Settings, after: Settings): SettingsChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: SettingsChange[] = [];
+  for (const key of keys) {
+    const from = (before as Record<string, unknown>)[key];
+    const to = (after as Record<string, unknown>)[key];
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes.push({ key, from, to });
+  }
+  return changes;
+}
+
+function describeChanges(changes: SettingsChange[]): string {
+  const fmt = (v: unknown) => (v === undefined ? "(unset)" : JSON.stringify(v));
+  return changes.map((c) => `${c.key}: ${fmt(c.from)} → ${fmt(c.to)}`).join("\n");
+}
+
+async function confirm(win: BrowserWindow | null, message: string, detail: string, ok: string) {
+  const opts: Electron.MessageBoxOptions = {
+    type: "question",
+    buttons: [ok, "Cancel"],
+    defaultId: 0,
+    cancelId: 1,
+    message,
+    detail,
+  };
+  const { response } = win ? await dialog.showMessageBox(win, opts) : await dialog.showMessageBox(opts);
+  return response === 0;
+}
+
+export async function exportSettings(
+  service: SettingsService,
+  win: BrowserWindow | null
+): Promise<ExportSettingsRes> {
+  const opts: Electron.SaveDialogOptions = {
+    title: "Export Settings",
+    defaultPath: `enigma-settings-${new Date().toISOString().slice(0, 10)}.json`,
+    filters: FILE_FILTERS,
+  };
+  const { canceled, filePath } = win ? await dialog.showSaveDialog(win, opts) : await dialog.showSaveDialog(opts);
+  if (canceled || !filePath) return { path: null };
+
+  const data: SettingsExport = {
+    format: "enigma-settings",
+    schemaVersion: service.version(),
+    exportedAt: new Date().toISOString(),
+    appVersion: app.getVersion(),
+    settings: service.get(),
+  };
+  await writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+  log.info("Exported settings to", filePath);
+  return { path: filePath };
+}
+
+/**
+ * Read an exported file, migrate it to the current schema, show the user what
+ * would change and apply it only if they accept.
+ */
+export async function importSettings(
+  service: SettingsService,
+  win: BrowserWindow | null
+): Promise<ImportSettingsRes> {
+  const current = service.get();
+  const opts: Electron.OpenDialogOptions = {
+    title: "Import Settings",
+    filters: FILE_FILTERS,
+    properties: ["openFile"],
+  };
+  const { canceled, filePaths } = win ? await dialog.showOpenDialog(win, opts) : await dialog.showOpenDialog(opts);
+  const filePath = filePaths[0];
+  if (canceled || !filePath) {
+    return { path: null, applied: false, settings: current, changes: [], resetFields: [] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(filePath, "utf-8"));
+  } catch {
+    throw new Error(`${filePath} is not a valid JSON file`);
+  }
+  const file = SettingsExportSchema.safeParse(json);
+  if (!file.success) throw new Error(`${filePath} is not an exported Enigma settings file`);
+
+  const report = migrateSettings({ ...file.data.settings, [SCHEMA_VERSION_KEY]: file.data.schemaVersion });
+  const changes = diffSettings(current, report.settings);
+  const result = { path: filePath, settings: current, changes, resetFields: report.resetFields };
+
+  if (!changes.length) {
+    log.info("Imported settings match the current ones; nothing to apply", filePath);
+    return { ...result, applied: false };
+  }
+
+  let detail = describeChanges(changes);
+  if (report.resetFields.length) {
+    detail += `\n\nInvalid in file, will use defaults: ${report.resetFields.join(", ")}`;
+  }
+  if (!(await confirm(win, `Apply ${changes.length} setting change(s) from this file?`, detail, "Apply"))) {
+    return { ...result, applied: false };
+  }
+
+  const settings = service.replace(report.settings);
+  log.info("Imported settings from", filePath, { changes, applied: report.applied });
+  broadcast(Events.SettingsChanged, { settings, sourceWindowId: win?.id });
+  return { ...result, settings, applied: true };
+}
+
+export async function resetSettings(
+  service: SettingsService,
+  win: BrowserWindow | null
+): Promise<ResetSettingsRes> {
+  const ok = await confirm(
+    win,
+    "Reset all settings to their defaults?",
+    "A copy of your current settings can be kept with File → Export Settings first.",
+    "Reset"
+  );
+  if (!ok) return { applied: false, settings: service.get() };
+
+  const settings = service.reset();
+  log.info("Settings reset to defaults");
+  broadcast(Events.SettingsChanged, { settings, sourceWindowId: win?.id });
+  return { applied: true, settings };
+}
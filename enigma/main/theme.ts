@@ -0,0 +1,28 @@
+// main/theme.ts
+import { nativeTheme } from "electron";
+import { Events } from "../shared/ipcChannels";
+import type { Theme } from "../shared/settingsSchema";
+import { Logger } from "../shared/logger";
+import { onEvent } from "./ipcEvents";
+
+const log = Logger.get("theme");
+
+/**
+ * Windows style themselves with `prefers-color-scheme` (see renderer/theme.css),
+ * which Chromium derives from `nativeTheme.themeSource`. Setting it is enough
+ * to restyle every open window live, including ones without a preload.
+ */
+export function applyTheme(theme: Theme): void {
+  if (nativeTheme.themeSource === theme) return;
+  nativeTheme.themeSource = theme;
+  log.info(`Theme set to ${theme}`, { dark: nativeTheme.shouldUseDarkColors });
+}
+
+/** Apply the stored theme and keep `themeSource` in sync with later settings changes. */
+export function setupTheme(initial: Theme): void {
+  applyTheme(initial);
+  onEvent(Events.SettingsChanged, ({ settings }) => applyTheme(settings.theme));
+  nativeTheme.on("updated", () => {
+    log.debug("Native theme updated", { source: nativeTheme.themeSource, dark: nativeTheme.shouldUseDarkColors });
+  });
+}
@@ -0,0 +1,212 @@
+// main/tray.ts
+import { app, BrowserWindow, dialog, Menu, MenuItemConstructorOptions, nativeImage, Tray } from "electron";
+import { Events } from "../shared/ipcChannels";
+import { Logger } from "../shared/logger";
+import { commands } from "./commands";
+import { onEvent } from "./ipcEvents";
+import type { WindowManager } from "./windowManager";
+
+const log = Logger.get("tray");
+
+const icons = new Map<boolean, Electron.NativeImage>();
+
+const errorCount = (n: number) => `${n} error${n === 1 ? "" : "s"}`;
+
+/**
+ * Tray glyph drawn at 32px (shown at 16pt on 2x displays): a ring, plus a
+ * red dot in the corner when there are unseen errors. Drawn in code so the
+ * app ships without image assets.
+ */
+function trayIcon(alert: boolean): Electron.NativeImage {
+  const cached = icons.get(alert);
+  if (cached) return cached;
+
+  const size = 32;
+  const buf = Buffer.alloc(size * size * 4);
+  // BGRA. A black glyph for macOS template images, the accent colour elsewhere.
+  const glyph = process.platform === "darwin" ? [0, 0, 0] : [0xde, 0x6f, 0x2f];
+  const red = [0x28, 0x28, 0xc6];
+  // Anti-aliased coverage of a disc of `radius` at `distance` from its centre.
+  const disc = (distance: number, radius: number) => Math.min(1, Math.max(0, radius - distance + 0.5));
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const d = Math.hypot(x + 0.5 - 16, y + 0.5 - 16);
+      let alpha = disc(d, 14) * (1 - disc(d, 8));
+      let color = glyph;
+      if (alert) {
+        const dot = Math.hypot(x + 0.5 - 25, y + 0.5 - 25);
+        alpha *= 1 - disc(dot, 8); // clear a gap around the dot
+        if (disc(dot, 6) > 0) {
+          alpha = disc(dot, 6);
+          color = red;
+        }
+      }
+      const i = (y * size + x) * 4;
+      buf[i] = color[0];
+      buf[i + 1] = color[1];
+      buf[i + 2] = color[2];
+      buf[i + 3] = Math.round(alpha * 255);
+    }
+  }
+
+  const image = nativeImage.createFromBitmap(buf, { width: size, height: size, scaleFactor: 2 });
+  // Template images follow the macOS menu bar colour, but would lose the red dot.
+  image.setTemplateImage(process.platform === "darwin" && !alert);
+  icons.set(alert, image);
+  return image;
+}
+
+export interface TrayOptions {
+  /** Opens a window when "Show" is picked and none exist. */
+  openMain: () => void;
+}
+
+/**
+ * Optional tray icon ("Run in tray" setting). While it is enabled, closing
+ * the last visible window hides it instead, so the app keeps running in the
+ * background. The icon and tooltip flag errors logged since the log viewer
+ * was last looked at.
+ */
+export class TrayService {
+  private tray: Tray | null = null;
+  private quitting = false;
+  /** Windows hidden by "Hide" or by closing the last one, to bring back on "Show". */
+  private hidden = new Set<BrowserWindow>();
+  private unseenErrors = 0;
+
+  constructor(
+    private windows: WindowManager,
+    private options: TrayOptions
+  ) {
+    app.on("before-quit", () => {
+      this.quitting = true;
+    });
+    app.on("browser-window-created", (_e, win) => this.interceptClose(win));
+    app.on("browser-window-focus", (_e, win) => {
+      if (this.windows.ofKind("logs").includes(win)) this.markErrorsSeen();
+    });
+    onEvent(Events.LogLineAppended, ({ level }) => {
+      if (level !== "error" || this.windows.ofKind("logs").some((w) => w.isFocused())) return;
+      this.unseenErrors++;
+      this.update();
+    });
+    commands.onChange(() => this.update());
+  }
+
+  get enabled(): boolean {
+    return this.tray !== null;
+  }
+
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    if (enabled) {
+      this.tray = new Tray(trayIcon(this.unseenErrors > 0));
+      // Windows/Linux: a click toggles the windows; the menu is on right-click.
+      this.tray.on("click", () => (this.anyVisible() ? this.hideAll() : this.showAll()));
+      log.info("Tray enabled");
+      this.update();
+    } else {
+      this.tray?.destroy();
+      this.tray = null;
+      log.info("Tray disabled");
+      // Nothing left to bring hidden windows back with.
+      if (this.hidden.size) this.showAll();
+    }
+  }
+
+  /** Closing the last visible window hides it to the tray instead. */
+  private interceptClose(win: BrowserWindow) {
+    win.on("close", (event) => {
+      if (!this.enabled || this.quitting) return;
+      const others = BrowserWindow.getAllWindows().filter((w) => w !== win && w.isVisible());
+      if (others.length) return;
+      event.preventDefault();
+      this.hide(win);
+      log.info("Last window closed; still running in the tray");
+    });
+    win.on("closed", () => this.hidden.delete(win));
+  }
+
+  private anyVisible(): boolean {
+    return BrowserWindow.getAllWindows().some((w) => w.isVisible());
+  }
+
+  private hide(win: BrowserWindow) {
+    this.hidden.add(win);
+    win.hide();
+    this.update();
+  }
+
+  private hideAll() {
+    for (const win of BrowserWindow.getAllWindows()) if (win.isVisible()) this.hide(win);
+  }
+
+  private showAll() {
+    const windows = [...this.hidden].filter((w) => !w.isDestroyed());
+    this.hidden.clear();
+    if (!windows.length && !this.anyVisible()) {
+      // Started in the tray, or every window was really closed.
+      const idle = BrowserWindow.getAllWindows().filter((w) => !w.isVisible());
+      if (idle.length) windows.push(...idle);
+      else this.options.openMain();
+    }
+    for (const win of windows) win.show();
+    windows.at(-1)?.focus();
+    this.update();
+  }
+
+  private markErrorsSeen() {
+    if (!this.unseenErrors) return;
+    this.unseenErrors = 0;
+    this.update();
+  }
+
+  private async runCommand(id: string) {
+    try {
+      await commands.run(id, { win: BrowserWindow.getFocusedWindow() });
+    } catch (err) {
+      log.error(`Tray action ${id} failed`, err);
+      dialog.showErrorBox(commands.get(id)?.title ?? id, `${(err as Error)?.message ?? err}`);
+    }
+  }
+
+  private buildMenu(): Menu {
+    const recent = commands.recent();
+    const visible = this.anyVisible();
+    const template: MenuItemConstructorOptions[] = [
+      {
+        label: visible ? `Hide ${app.name}` : `Show ${app.name}`,
+        click: () => (visible ? this.hideAll() : this.showAll()),
+      },
+      { type: "separator" },
+      {
+        label: this.unseenErrors ? `Open Log Viewer (${errorCount(this.unseenErrors)} new)` : "Open Log Viewer",
+        click: () => void this.runCommand("view.logViewer"),
+      },
+      {
+        label: "Recent",
+        enabled: recent.length > 0,
+        submenu: recent.map((c) => ({
+          label: c.title,
+          enabled: commands.isEnabled(c.id, { win: null }),
+          click: () => void this.runCommand(c.id),
+        })),
+      },
+      { type: "separator" },
+      { role: "quit" },
+    ];
+    return Menu.buildFromTemplate(template);
+  }
+
+  /** Refresh icon, tooltip and menu; also call when windows open, close or change focus. */
+  update(): void {
+    if (!this.tray) return;
+    const errors = this.unseenErrors;
+    this.tray.setImage(trayIcon(errors > 0));
+    this.tray.setToolTip(
+      errors ? `${app.name}: ${errorCount(errors)} since you last opened the logs` : app.name
+    );
+    this.tray.setContextMenu(this.buildMenu());
+  }
+}
@@ -0,0 +1,125 @@
+// main/updateService.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultsLayer, resolveConfig } from "../shared/config";
+
+const { app, dialog, updater } = vi.hoisted(() => {
+  const { EventEmitter } = require("node:events") as typeof import("node:events");
+  return {
+    app: { name: "Enigma", isPackaged: false, getVersion: () => "1.0.0" },
+    dialog: { showMessageBox: vi.fn(async () => ({ response: 1 })) },
+    updater: Object.assign(new EventEmitter(), {
+      channel: null as string | null,
+      allowPrerelease: false,
+      allowDowngrade: true,
+      autoDownload: false,
+      autoInstallOnAppQuit: false,
+      forceDevUpdateConfig: false,
+      logger: null as unknown,
+      setFeedURL: vi.fn(),
+      isUpdaterActive: vi.fn(() => true),
+      checkForUpdates: vi.fn(async () => null),
+      quitAndInstall: vi.fn(),
+    }),
+  };
+});
+
+vi.mock("electron", () => ({ app, dialog, BrowserWindow: { getFocusedWindow: () => null } }));
+vi.mock("electron-updater", () => ({ autoUpdater: updater }));
+vi.mock("electron-log", () => ({ default: { info() {}, warn() {}, error() {}, debug() {}, verbose() {}, silly() {}, transports: {} } }));
+vi.mock("./ipcEvents", () => ({ broadcast: vi.fn() }));
+
+import { UpdateService } from "./updateService";
+
+function config(feedUrl: string) {
+  const { config } = resolveConfig([defaultsLayer()]);
+  return { ...config, updates: { feedUrl, checkOnStartup: false } };
+}
+
+describe("UpdateService", () => {
+  beforeEach(() => {
+    updater.removeAllListeners();
+    vi.clearAllMocks();
+    app.isPackaged = false;
+  });
+
+  it("checks a local generic feed in unpackaged builds", () => {
+    const service = new UpdateService();
+    service.start(config("http://localhost:8080"), "stable");
+
+    expect(updater.setFeedURL).toHaveBeenCalledWith({ provider: "generic", url: "http://localhost:8080" });
+    expect(updater.forceDevUpdateConfig).toBe(true);
+    expect(service.get().state).toBe("idle");
+  });
+
+  it("refuses an http feed in packaged builds", () => {
+    app.isPackaged = true;
+    const service = new UpdateService();
+    service.start(config("http://localhost:8080"), "stable");
+
+    expect(updater.setFeedURL).not.toHaveBeenCalled();
+    expect(service.get()).toMatchObject({ state: "disabled", message: expect.stringContaining("https") });
+  });
+
+  it("maps update channels to feed files without allowing downgrades", () => {
+    const service = new UpdateService();
+    service.start(config("https://updates.example.com"), "beta");
+    expect(updater).toMatchObject({ channel: "beta", allowPrerelease: true, allowDowngrade: false });
+    expect(service.get().channel).toBe("beta");
+
+    service.setChannel("stable");
+    expect(updater).toMatchObject({ channel: "latest", allowPrerelease: false, allowDowngrade: false });
+    expect(service.get().channel).toBe("stable");
+    expect(updater.checkForUpdates).toHaveBeenCalledTimes(1);
+  });
+
+  it("follows the updater through a verified download", () => {
+    const service = new UpdateService();
+    service.start(config("https://updates.example.com"), "stable");
+
+    updater.emit("checking-for-update");
+    updater.emit("update-available", { version: "1.1.0" });
+    expect(service.get()).toMatchObject({ state: "available", version: "1.1.0" });
+    updater.emit("download-progress", { percent: 50, transferred: 5, total: 10, bytesPerSecond: 1 });
+    expect(service.get()).toMatchObject({ state: "downloading", progress: { percent: 50 } });
+    updater.emit("update-downloaded", { version: "1.1.0" });
+    expect(service.get()).toMatchObject({ state: "downloaded", version: "1.1.0", progress: null });
+    expect(dialog.showMessageBox).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a failed checksum as an error", () => {
+    const service = new UpdateService();
+    service.start(config("https://updates.example.com"), "stable");
+
+    updater.emit("update-available", { version: "1.1.0" });
+    updater.emit("error", new Error("sha512 checksum mismatch"));
+    expect(service.get()).toMatchObject({ state: "error", message: "sha512 checksum mismatch", progress: null });
+    expect(() => service.install()).toThrow("No update has been downloaded");
+  });
+
+  it("doesn't start a check while one is running or a download is on its way", async () => {
+    const service = new UpdateService();
+    service.start(config("https://updates.example.com"), "stable");
+
+    for (const event of ["checking-for-update", "download-progress"] as const) {
+      updater.emit(event, { percent: 1, transferred: 1, total: 2, bytesPerSecond: 1 });
+      await service.check();
+    }
+    updater.emit("update-downloaded", { version: "1.1.0" });
+    await service.check();
+    expect(updater.checkForUpdates).not.toHaveBeenCalled();
+
+    updater.emit("update-not-available");
+    await service.check();
+    expect(updater.checkForUpdates).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't check when updates are disabled", async () => {
+    updater.isUpdaterActive.mockReturnValueOnce(false);
+    const service = new UpdateService();
+    service.start(config(""), "stable");
+
+    expect(service.get().state).toBe("disabled");
+    await service.check();
+    expect(updater.checkForUpdates).not.toHaveBeenCalled();
+  });
+});
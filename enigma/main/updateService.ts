@@ -0,0 +1,214 @@
+// main/updateService.ts
+import { app, BrowserWindow, dialog } from "electron";
+import { autoUpdater, type ProgressInfo, type UpdateInfo } from "electron-updater";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { AppConfig } from "../shared/config";
+import { Events, type UpdateStatus } from "../shared/ipcChannels";
+import { Logger } from "../shared/logger";
+import type { UpdateChannel } from "../shared/settingsSchema";
+import { broadcast } from "./ipcEvents";
+
+const log = Logger.get("updates");
+
+/** electron-builder writes app-update.yml only when `publish` names a feed. */
+function hasBuiltInFeed(): boolean {
+  return existsSync(join(process.resourcesPath, "app-update.yml"));
+}
+
+/** Let startup finish (windows, session restore) before hitting the network. */
+const STARTUP_CHECK_DELAY_MS = 5_000;
+
+/**
+ * Checks a generic update feed (electron-builder's latest*.yml) on startup
+ * and on demand, downloads new versions in the background and offers a
+ * restart once one is ready. electron-updater verifies each download against
+ * the sha512 listed in the feed before reporting it as downloaded; feeds must
+ * be https, and Windows installers must also be signed by the publisher named
+ * in electron-builder.yaml.
+ */
+export class UpdateService {
+  private status: UpdateStatus = {
+    state: "idle",
+    currentVersion: app.getVersion(),
+    channel: "stable",
+    version: null,
+    progress: null,
+    message: null,
+    checkedAt: null,
+  };
+  private started = false;
+  /** Version the restart prompt was last shown for, so it isn't repeated. */
+  private prompted: string | null = null;
+
+  /** Wire up the updater and schedule the startup check (call once, after ready). */
+  start(config: AppConfig, channel: UpdateChannel): void {
+    if (this.started) return;
+    this.started = true;
+
+    const { feedUrl, checkOnStartup } = config.updates;
+    autoUpdater.logger = Logger.get("electron-updater");
+    autoUpdater.autoDownload = true;
+    autoUpdater.autoInstallOnAppQuit = true;
+    if (feedUrl.startsWith("http:") && app.isPackaged) {
+      // Config only lets http through for a local test server; never trust one in a release.
+      const reason = `Refusing the insecure update feed ${feedUrl}; use https.`;
+      this.set({ state: "disabled", message: reason });
+      log.warn("Updates disabled:", reason);
+      return;
+    }
+    if (feedUrl) {
+      autoUpdater.setFeedURL({ provider: "generic", url: feedUrl });
+      // Lets unpackaged builds check too, e.g. against a local static server:
+      // bump the version in package.json, `npm run dist`, serve dist-build/
+      // (latest*.yml plus the installer), restore the version and run with
+      // --update-url http://localhost:<port>. Editing the sha512 in the yml
+      // should end in the "error" state instead of "downloaded".
+      autoUpdater.forceDevUpdateConfig = !app.isPackaged;
+    } else if (app.isPackaged && !hasBuiltInFeed()) {
+      const reason = "No update feed is configured for this build.";
+      this.set({ state: "disabled", message: reason });
+      log.info("Updates disabled:", reason);
+      return;
+    }
+    this.applyChannel(channel);
+
+    if (!autoUpdater.isUpdaterActive()) {
+      const reason = !app.isPackaged
+        ? "Updates are only checked in packaged builds (set updates.feedUrl to test against a feed)."
+        : "This build can't update itself (on Linux, only the AppImage can).";
+      this.set({ state: "disabled", message: reason });
+      log.info("Updates disabled:", reason);
+      return;
+    }
+
+    autoUpdater.on("checking-for-update", () => this.set({ state: "checking", message: null }));
+    autoUpdater.on("update-available", (info: UpdateInfo) =>
+      this.set({ state: "available", version: info.version, progress: null })
+    );
+    autoUpdater.on("update-not-available", () =>
+      this.set({ state: "not-available", version: null, progress: null, checkedAt: Date.now() })
+    );
+    autoUpdater.on("download-progress", (p: ProgressInfo) =>
+      this.set({
+        state: "downloading",
+        progress: { percent: p.percent, transferred: p.transferred, total: p.total, bytesPerSecond: p.bytesPerSecond },
+      })
+    );
+    autoUpdater.on("update-downloaded", (info: UpdateInfo) => {
+      this.set({ state: "downloaded", version: info.version, progress: null, checkedAt: Date.now() });
+      void this.promptRestart();
+    });
+    autoUpdater.on("error", (err: Error) => {
+      log.warn("Update failed", err);
+      this.set({ state: "error", message: err?.message ?? String(err), progress: null, checkedAt: Date.now() });
+    });
+
+    log.info("Update checks enabled", { feed: feedUrl || "(built in)", channel, checkOnStartup });
+    if (checkOnStartup) setTimeout(() => void this.check(), STARTUP_CHECK_DELAY_MS);
+  }
+
+  get(): UpdateStatus {
+    return { ...this.status };
+  }
+
+  /** Check now; resolves once the check (not the download) has finished. */
+  async check(): Promise<UpdateStatus> {
+    const { state } = this.status;
+    // Nothing to do, or a download is already on its way.
+    if (state === "disabled" || state === "checking" || state === "downloading" || state === "downloaded") {
+      return this.get();
+    }
+    try {
+      await autoUpdater.checkForUpdates();
+    } catch (err) {
+      // Also reported through the "error" event, which sets the status.
+      log.debug("Update check failed", err);
+    }
+    return this.get();
+  }
+
+  /** "Check for Updates…": check, then tell the user what was found. */
+  async checkInteractive(win: BrowserWindow | null): Promise<void> {
+    if (this.status.state === "downloaded") return this.promptRestart(true);
+
+    const status = await this.check();
+    const show = (opts: Electron.MessageBoxOptions) =>
+      win ? dialog.showMessageBox(win, opts) : dialog.showMessageBox(opts);
+    switch (status.state) {
+      case "disabled":
+        await show({ type: "info", message: "Updates are not available", detail: status.message ?? "" });
+        break;
+      case "not-available":
+        await show({
+          type: "info",
+          message: "You're up to date",
+          detail: `${app.name} ${status.currentVersion} is the latest ${status.channel} version.`,
+        });
+        break;
+      case "checking":
+        await show({ type: "info", message: "Already checking for updates", detail: "Try again in a moment." });
+        break;
+      case "available":
+      case "downloading":
+        await show({
+          type: "info",
+          message: `${app.name} ${status.version} is available`,
+          detail: "It is downloading in the background; you'll be asked to restart once it's ready.",
+        });
+        break;
+      case "error":
+        await show({ type: "error", message: "Couldn't check for updates", detail: status.message ?? "" });
+        break;
+    }
+  }
+
+  /** Switch between the stable and beta feeds; rechecks when it changes. */
+  setChannel(channel: UpdateChannel): void {
+    if (channel === this.status.channel) return;
+    this.applyChannel(channel);
+    if (this.status.state !== "disabled") void this.check();
+  }
+
+  /** Quit and install a downloaded update. */
+  install(): void {
+    if (this.status.state !== "downloaded") throw new Error("No update has been downloaded");
+    log.info(`Restarting to install ${this.status.version}`);
+    autoUpdater.quitAndInstall();
+  }
+
+  /** Ask whether to restart into a downloaded update; "Later" installs on quit. */
+  async promptRestart(force = false): Promise<void> {
+    const { state, version } = this.status;
+    if (state !== "downloaded" || (!force && this.prompted === version)) return;
+    this.prompted = version;
+
+    const opts: Electron.MessageBoxOptions = {
+      type: "info",
+      message: `${app.name} ${version} is ready to install`,
+      detail: "Restart now to update, or it will be installed the next time you quit.",
+      buttons: ["Restart Now", "Later"],
+      defaultId: 0,
+      cancelId: 1,
+    };
+    const win = BrowserWindow.getFocusedWindow();
+    const { response } = win ? await dialog.showMessageBox(win, opts) : await dialog.showMessageBox(opts);
+    if (response === 0) this.install();
+  }
+
+  private applyChannel(channel: UpdateChannel) {
+    // electron-updater looks for beta*.yml vs latest*.yml on generic feeds.
+    autoUpdater.channel = channel === "beta" ? "beta" : "latest";
+    autoUpdater.allowPrerelease = channel === "beta";
+    // Setting `channel` enables downgrades; leaving beta shouldn't roll back.
+    autoUpdater.allowDowngrade = false;
+    this.set({ channel });
+  }
+
+  private set(patch: Partial<UpdateStatus>) {
+    this.status = { ...this.status, ...patch };
+    broadcast(Events.UpdateStatusChanged, this.get());
+  }
+}
+
+export const updates = new UpdateService();
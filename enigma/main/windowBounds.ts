@@ -0,0 +1,105 @@
+// main/windowBounds.ts
+import { screen } from 'electron';
+import { z } from 'zod';
+
+/** Persisted per-window state. `x/y/width/height` are the normal (restored) bounds, in DIPs. */
+export const WindowStateSchema = z.object({
+  x: z.number().int().optional(),
+  y: z.number().int().optional(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  isMaximized: z.boolean().optional(),
+  isFullScreen: z.boolean().optional(),
+  /** Display the window was on and its scale factor when saved. */
+  displayId: z.number().optional(),
+  scaleFactor: z.number().positive().optional(),
+});
+
+export type WindowState = z.infer<typeof WindowStateSchema>;
+
+type Rect = Electron.Rectangle;
+
+/** At least this much of the window (title bar included) must land on a display. */
+const MIN_VISIBLE = 64;
+
+function overlap(a: Rect, b: Rect) {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return { w: Math.max(w, 0), h: Math.max(h, 0) };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), Math.max(min, max));
+}
+
+/** Shrink to fit `area`, then move fully inside it. */
+function clampInto(rect: Rect, area: Rect): Rect {
+  const width = Math.min(rect.width, area.width);
+  const height = Math.min(rect.height, area.height);
+  return {
+    x: clamp(rect.x, area.x, area.x + area.width - width),
+    y: clamp(rect.y, area.y, area.y + area.height - height),
+    width,
+    height,
+  };
+}
+
+function centerIn(width: number, height: number, area: Rect): Rect {
+  const w = Math.min(width, area.width);
+  const h = Math.min(height, area.height);
+  return {
+    x: Math.round(area.x + (area.width - w) / 2),
+    y: Math.round(area.y + (area.height - h) / 2),
+    width: w,
+    height: h,
+  };
+}
+
+/**
+ * Make saved bounds visible on the current display layout. A window still
+ * mostly on a display is clamped into that display's work area; one whose
+ * display is gone (or that would be barely visible) is centred on the
+ * primary display. Bounds without a position are left to the OS.
+ */
+export function fitToDisplays(state: WindowState): WindowState {
+  const displays = screen.getAllDisplays();
+  if (!displays.length) return state;
+
+  if (state.x === undefined || state.y === undefined) {
+    const area = screen.getPrimaryDisplay().workArea;
+    return { ...state, width: Math.min(state.width, area.width), height: Math.min(state.height, area.height) };
+  }
+
+  const rect: Rect = { x: state.x, y: state.y, width: state.width, height: state.height };
+  const best = displays
+    .map((display) => ({ display, ...overlap(rect, display.workArea) }))
+    .sort((a, b) => b.w * b.h - a.w * a.h)[0];
+
+  const visible =
+    best.w >= Math.min(MIN_VISIBLE, rect.width) &&
+    best.h >= Math.min(MIN_VISIBLE, rect.height) &&
+    // The top edge must be reachable so the window can be dragged.
+    rect.y >= best.display.workArea.y - MIN_VISIBLE / 2;
+
+  const fitted = visible
+    ? clampInto(rect, best.display.workArea)
+    : centerIn(rect.width, rect.height, screen.getPrimaryDisplay().workArea);
+  return { ...state, ...fitted };
+}
+
+export function sameBounds(a: Partial<Rect>, b: Partial<Rect>) {
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+/** Snapshot of a window for persisting; maximized/fullscreen windows keep their normal bounds. */
+export function captureState(win: Electron.BrowserWindow): WindowState {
+  const bounds = win.getNormalBounds();
+  const display = screen.getDisplayMatching(bounds);
+  return {
+    ...bounds,
+    isMaximized: win.isMaximized(),
+    isFullScreen: win.isFullScreen(),
+    displayId: display.id,
+    scaleFactor: display.scaleFactor,
+  };
+}
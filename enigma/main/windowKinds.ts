@@ -0,0 +1,72 @@
+// main/windowKinds.ts
+import { BrowserWindow } from "electron";
+import type { CrashPolicy } from "./windowManager";
+import { attachLogViewer } from "./logViewer";
+import type { PreloadName, RendererEntry } from "./rendererEntry";
+
+export interface WindowKindSpec {
+  /** Page under renderer/<entry>/ (one Vite bundle each). */
+  entry: RendererEntry;
+  preload: PreloadName;
+  /** Sandboxed renderers may only use preloads that require nothing but 'electron'. */
+  sandbox?: boolean;
+  /**
+   * Singletons are focused instead of opened twice and persist their state
+   * under the kind name; multi-instance windows get `<kind>-<n>` ids and
+   * persist under those, so each run's n-th window reuses the n-th slot.
+   */
+  singleton: boolean;
+  options: Electron.BrowserWindowConstructorOptions;
+  crashPolicy?: Partial<CrashPolicy>;
+  /** Runs once per new window, before its page loads. */
+  setup?: (win: BrowserWindow) => void;
+}
+
+export const windowKinds = {
+  main: {
+    entry: "main",
+    preload: "preload",
+    singleton: true,
+    options: { width: 1000, height: 700 },
+  },
+  settings: {
+    entry: "settings",
+    preload: "preload",
+    singleton: true,
+    options: { title: "Settings", width: 560, height: 520, minWidth: 420, minHeight: 320 },
+  },
+  logs: {
+    entry: "logs",
+    preload: "logViewerPreload",
+    sandbox: true,
+    // One window per file (or set of files) opened from outside.
+    singleton: false,
+    options: { title: "Log Viewer", width: 900, height: 600 },
+    setup: attachLogViewer,
+  },
+  config: {
+    entry: "config",
+    preload: "preload",
+    singleton: true,
+    options: { title: "Effective Config", width: 760, height: 560 },
+  },
+  about: {
+    entry: "about",
+    preload: "preload",
+    singleton: true,
+    options: {
+      title: "About",
+      width: 420,
+      height: 420,
+      resizable: false,
+      minimizable: false,
+      maximizable: false,
+      fullscreenable: false,
+    },
+  },
+} satisfies Record<string, WindowKindSpec>;
+
+export type WindowKind = keyof typeof windowKinds;
+
+/** Query parameters handed to a window's page (read with `URLSearchParams`). */
+export type WindowParams = Record<string, string>;
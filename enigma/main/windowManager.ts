@@ -1,19 +1,78 @@
 // main/windowManager.ts
-import { BrowserWindow, app } from 'electron';
+import { BrowserWindow, app, dialog, screen } from 'electron';
 import { join } from 'node:path';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
+import { readFileSync, readdirSync, existsSync, mkdirSync } from 'node:fs';
 import { Logger } from '../shared/logger';
+import { Events } from '../shared/ipcChannels';
+import { broadcast, emitTo } from './ipcEvents';
+import { writeJsonAtomic } from './atomicWrite';
+import { loadRenderer, preloadPath } from './rendererEntry';
+import { WindowKind, WindowKindSpec, windowKinds, WindowParams } from './windowKinds';
+import { captureState, fitToDisplays, sameBounds, WindowState, WindowStateSchema } from './windowBounds';
 
-type Bounds = { x?: number; y?: number; width: number; height: number; isMaximized?: boolean };
-type CreateOpts = Electron.BrowserWindowConstructorOptions & { id: string };
+/**
+ * A crashed renderer is reloaded automatically unless it has already crashed
+ * more than `maxCrashes` times within `periodMs`; then the window shows the
+ * crash fallback page instead.
+ */
+export interface CrashPolicy {
+  maxCrashes: number;
+  periodMs: number;
+}
+
+/**
+ * How a new window appears once its page has loaded: shown, minimized, or
+ * kept hidden (started in the tray, see main/tray.ts).
+ */
+export type InitialWindowState = 'normal' | 'minimized' | 'hidden';
+
+export type OpenOpts = Electron.BrowserWindowConstructorOptions & {
+  initialState?: InitialWindowState;
+};
+
+type CreateOpts = OpenOpts & {
+  id: string;
+  /** File the window's bounds persist under; defaults to `id`. */
+  stateId?: string;
+  crashPolicy?: Partial<CrashPolicy>;
+};
+
+export interface WindowManagerOptions {
+  /** Run by the crash notice and fallback page to produce a diagnostic bundle. */
+  openDiagnostics?: (win: BrowserWindow) => Promise<unknown>;
+  /** Called whenever a window opens, closes or is focused (see `openWindows`). */
+  onChange?: () => void;
+}
+
+/** A window opened through `open()`, as recorded for session restore. */
+export interface OpenWindowInfo {
+  id: string;
+  kind: WindowKind;
+  params: WindowParams;
+}
+
+const DEFAULT_CRASH_POLICY: CrashPolicy = { maxCrashes: 3, periodMs: 60_000 };
+/** Window state is written this long after the last move/resize. */
+const SAVE_DEBOUNCE_MS = 500;
 
 const log = Logger.get('window');
 
 export class WindowManager {
   private windows = new Map<string, BrowserWindow>();
   private stateDir = join(app.getPath('userData'), 'window-state');
+  /** Recent crash timestamps per window id. */
+  private crashes = new Map<string, number[]>();
+  /** Window ids currently showing the crash fallback page. */
+  private fallback = new Set<string>();
+  private pendingSaves = new Map<string, NodeJS.Timeout>();
+  private watchingDisplays = false;
+  private instanceCount = 0;
+  /** Kind and params of windows opened through `open()`. */
+  private opened = new Map<string, { kind: WindowKind; params: WindowParams }>();
+  /** Window ids, least recently focused first. */
+  private focusOrder: string[] = [];
 
-  constructor() {
+  constructor(private readonly options: WindowManagerOptions = {}) {
     if (!existsSync(this.stateDir)) mkdirSync(this.stateDir, { recursive: true });
   }
 
@@ -21,39 +80,236 @@ export class WindowManager {
     return join(this.stateDir, `${id}.json`);
   }
 
-  loadBounds(id: string, fallback: Bounds): Bounds {
+  /** Saved state for `id`, moved onto a visible display; `fallback` if none or unreadable. */
+  loadBounds(id: string, fallback: WindowState): WindowState {
+    let state = fallback;
     try {
       const p = this.statePath(id);
       if (existsSync(p)) {
-        const raw = JSON.parse(readFileSync(p, 'utf-8')) as Bounds;
-        return { ...fallback, ...raw };
+        const parsed = WindowStateSchema.safeParse(JSON.parse(readFileSync(p, 'utf-8')));
+        if (parsed.success) state = parsed.data;
+        else log.warn(`Ignoring invalid window state for ${id}`, parsed.error.issues);
       }
     } catch (err) {
       log.warn(`Failed to load bounds for ${id}`, err);
     }
-    return fallback;
+
+    const fitted = fitToDisplays(state);
+    if (!sameBounds(fitted, state)) {
+      log.info(`Moved ${id} onto a visible display`, { saved: state, restored: fitted });
+    }
+    // Sizes are in DIPs, so they carry across scale changes; only note them.
+    const { x, y, width, height } = fitted;
+    if (x !== undefined && y !== undefined && state.scaleFactor) {
+      const display = screen.getDisplayMatching({ x, y, width, height });
+      if (display.scaleFactor !== state.scaleFactor) {
+        log.info(`Display scale for ${id} changed ${state.scaleFactor} -> ${display.scaleFactor}`);
+      }
+    }
+    return fitted;
   }
 
+  /** Write the window's state atomically, so a crash never leaves half a file. */
   saveBounds(id: string, win: BrowserWindow) {
-    const b = win.getBounds();
-    const state: Bounds = { ...b, isMaximized: win.isMaximized() };
+    this.cancelSave(id);
+    if (win.isDestroyed()) return;
     try {
-      writeFileSync(this.statePath(id), JSON.stringify(state, null, 2));
+      writeJsonAtomic(this.statePath(id), captureState(win));
     } catch (err) {
       log.warn(`Failed to save bounds for ${id}`, err);
     }
   }
 
+  private scheduleSave(id: string, win: BrowserWindow) {
+    this.cancelSave(id);
+    this.pendingSaves.set(id, setTimeout(() => this.saveBounds(id, win), SAVE_DEBOUNCE_MS));
+  }
+
+  private cancelSave(id: string) {
+    clearTimeout(this.pendingSaves.get(id));
+    this.pendingSaves.delete(id);
+  }
+
+  /**
+   * Keep open windows reachable when a monitor is unplugged or its
+   * resolution/scale changes. Needs the app to be ready, so it starts with
+   * the first window.
+   */
+  private watchDisplays() {
+    if (this.watchingDisplays) return;
+    this.watchingDisplays = true;
+
+    const refit = () => {
+      for (const [id, win] of this.windows) {
+        if (win.isDestroyed() || win.isMaximized() || win.isFullScreen() || win.isMinimized()) continue;
+        const current = win.getBounds();
+        const fitted = fitToDisplays(current);
+        if (sameBounds(fitted, current)) continue;
+        log.info(`Display layout changed; moving ${id} back on screen`, fitted);
+        win.setBounds(fitted);
+      }
+    };
+    screen.on('display-removed', refit);
+    screen.on('display-metrics-changed', refit);
+  }
+
+  /** Saved bounds of every known window, overlaid with the live bounds of open ones. */
+  stateSnapshot(): Record<string, WindowState | { error: string }> {
+    const out: Record<string, WindowState | { error: string }> = {};
+    try {
+      for (const name of readdirSync(this.stateDir)) {
+        if (!name.endsWith('.json')) continue;
+        try {
+          out[name.slice(0, -5)] = JSON.parse(readFileSync(join(this.stateDir, name), 'utf-8'));
+        } catch (err) {
+          out[name.slice(0, -5)] = { error: (err as Error).message };
+        }
+      }
+    } catch (err) {
+      log.warn('Failed to read window state directory', err);
+    }
+    for (const [id, win] of this.windows) {
+      if (!win.isDestroyed()) out[id] = captureState(win);
+    }
+    return out;
+  }
+
+  private async openDiagnostics(win: BrowserWindow) {
+    try {
+      await this.options.openDiagnostics?.(win);
+    } catch (err) {
+      log.error('Diagnostic bundle failed', err);
+      dialog.showErrorBox('Diagnostic Bundle', `${(err as Error)?.message ?? err}`);
+    }
+  }
+
+  private async reload(id: string, win: BrowserWindow, load: (win: BrowserWindow) => Promise<void>) {
+    this.fallback.delete(id);
+    await load(win);
+  }
+
+  private onRenderProcessGone(
+    id: string,
+    win: BrowserWindow,
+    load: (win: BrowserWindow) => Promise<void>,
+    policy: CrashPolicy,
+    details: Electron.RenderProcessGoneDetails
+  ) {
+    if (details.reason === 'clean-exit' || win.isDestroyed()) return;
+
+    const now = Date.now();
+    const recent = (this.crashes.get(id) ?? []).filter((t) => now - t < policy.periodMs);
+    recent.push(now);
+    this.crashes.set(id, recent);
+
+    if (recent.length > policy.maxCrashes) {
+      log.error(`Window ${id} crashed ${recent.length} times in ${policy.periodMs} ms; not reloading`, details);
+      this.fallback.add(id);
+      void loadRenderer(win, 'crashed').catch((err) => log.error(`Failed to load crash page for ${id}`, err));
+      return;
+    }
+
+    log.warn(`Window ${id} renderer gone (${details.reason}); reloading`, details);
+    const bounds = win.getBounds();
+    const maximized = win.isMaximized();
+
+    void (async () => {
+      await this.reload(id, win, load);
+      if (win.isDestroyed()) return;
+      if (maximized) win.maximize();
+      else win.setBounds(bounds);
+
+      const { response } = await dialog.showMessageBox(win, {
+        type: 'warning',
+        message: 'This window crashed and was restored',
+        detail: `The page stopped unexpectedly (${details.reason}) and was reloaded. Unsaved changes in it may have been lost.`,
+        buttons: ['OK', 'Create Diagnostic Bundle…'],
+        defaultId: 0,
+        cancelId: 0,
+      });
+      if (response === 1) await this.openDiagnostics(win);
+    })();
+  }
+
+  /**
+   * Open a window of a registered kind (see main/windowKinds.ts). Singletons
+   * that are already open are focused instead. `params` reach the page as its
+   * query string (or, for a focused singleton, as a WindowParamsChanged
+   * event); `options` override the kind's defaults.
+   */
+  open(
+    kind: WindowKind,
+    params: WindowParams = {},
+    options: OpenOpts = {}
+  ): BrowserWindow {
+    const spec: WindowKindSpec = windowKinds[kind];
+    const existing = spec.singleton ? this.get(kind) : null;
+    if (existing) {
+      if (existing.isMinimized()) existing.restore();
+      existing.focus();
+      if (Object.keys(params).length) {
+        this.opened.set(kind, { kind, params });
+        emitTo(existing, Events.WindowParamsChanged, { params });
+        this.options.onChange?.();
+      }
+      return existing;
+    }
+
+    const id = spec.singleton ? kind : `${kind}-${++this.instanceCount}`;
+    log.info(`Opening ${kind} window`, { id, params });
+    const win = this.create(
+      {
+        ...spec.options,
+        ...options,
+        id,
+        // Each open instance of a multi-instance kind keeps its own slot (`logs-1`, ...).
+        stateId: spec.singleton ? kind : undefined,
+        crashPolicy: spec.crashPolicy,
+        webPreferences: {
+          contextIsolation: true,
+          nodeIntegration: false,
+          ...(spec.sandbox && { sandbox: true }),
+          preload: preloadPath(spec.preload),
+        },
+      },
+      async (w) => {
+        try {
+          await loadRenderer(w, spec.entry, params);
+        } catch (err) {
+          log.error(`Failed to load ${kind} window`, err);
+        }
+      }
+    );
+    this.opened.set(id, { kind, params });
+    spec.setup?.(win);
+    this.options.onChange?.();
+    return win;
+  }
+
+  /** Windows opened through `open()` that are still open, back to front. */
+  openWindows(): OpenWindowInfo[] {
+    const ids = [...this.opened.keys()].sort((a, b) => this.focusOrder.indexOf(a) - this.focusOrder.indexOf(b));
+    return ids.map((id) => ({ id, ...this.opened.get(id)! }));
+  }
+
+  private touch(id: string) {
+    this.focusOrder = [...this.focusOrder.filter((x) => x !== id), id];
+  }
+
   create(opts: CreateOpts, load: (win: BrowserWindow) => Promise<void>): BrowserWindow {
+    const { crashPolicy, stateId: stateOpt, initialState = 'normal', ...winOpts } = opts;
     const id = opts.id;
-    const fallback: Bounds = {
+    const stateId = stateOpt ?? id;
+    const policy: CrashPolicy = { ...DEFAULT_CRASH_POLICY, ...crashPolicy };
+    const fallback: WindowState = {
       width: opts.width ?? 1000,
       height: opts.height ?? 700,
     };
-    const initial = this.loadBounds(id, fallback);
+    this.watchDisplays();
+    const initial = this.loadBounds(stateId, fallback);
 
     const win = new BrowserWindow({
-      ...opts,
+      ...winOpts,
       x: initial.x,
       y: initial.y,
       width: initial.width,
@@ -62,11 +318,50 @@ export class WindowManager {
     });
 
     if (initial.isMaximized) win.maximize();
+    if (initial.isFullScreen) win.setFullScreen(true);
+
+    const save = () => this.scheduleSave(stateId, win);
+    win.on('move', save);
+    win.on('resize', save);
+    win.on('maximize', save);
+    win.on('unmaximize', save);
+    win.on('enter-full-screen', save);
+    win.on('leave-full-screen', save);
+    win.on('close', () => this.saveBounds(stateId, win));
+    win.on('closed', () => {
+      this.cancelSave(stateId);
+      this.windows.delete(id);
+      this.crashes.delete(id);
+      this.fallback.delete(id);
+      this.opened.delete(id);
+      this.focusOrder = this.focusOrder.filter((x) => x !== id);
+      this.options.onChange?.();
+    });
+    win.on('focus', () => {
+      this.touch(id);
+      this.options.onChange?.();
+      broadcast(Events.WindowFocusChanged, { windowId: win.id, focused: true });
+    });
+    win.on('blur', () => broadcast(Events.WindowFocusChanged, { windowId: win.id, focused: false }));
 
-    win.on('close', () => this.saveBounds(id, win));
-    win.on('closed', () => this.windows.delete(id));
+    win.webContents.on('render-process-gone', (_e, details) =>
+      this.onRenderProcessGone(id, win, load, policy, details)
+    );
+    // The crash page has no script; its links are handled here instead.
+    win.webContents.on('will-navigate', (event, url) => {
+      if (!this.fallback.has(id)) return;
+      event.preventDefault();
+      const action = new URL(url).searchParams.get('action');
+      if (action === 'diagnostics') void this.openDiagnostics(win);
+      else if (action === 'reload') {
+        log.info(`Retrying window ${id} after crash loop`);
+        this.crashes.delete(id);
+        void this.reload(id, win, load);
+      }
+    });
 
     this.windows.set(id, win);
+    this.touch(id);
 
     // Load URL/file and show when ready
     void (async () => {
@@ -76,10 +371,14 @@ export class WindowManager {
         log.error(`Failed to load window ${id}`, e);
       } finally {
         // Avoid ready-to-show deadlocks
-        if (!win.isDestroyed()) {
-          if (win.isVisible()) return;
-          if (win.isMinimized()) win.restore();
-          win.show();
+        if (!win.isDestroyed() && !win.isVisible() && initialState !== 'hidden') {
+          if (initialState === 'minimized') {
+            win.showInactive();
+            win.minimize();
+          } else {
+            if (win.isMinimized()) win.restore();
+            win.show();
+          }
         }
       }
     })();
@@ -91,6 +390,13 @@ export class WindowManager {
     return this.windows.get(id) ?? null;
   }
 
+  /** Open windows of `kind`, back to front. */
+  ofKind(kind: WindowKind): BrowserWindow[] {
+    return this.openWindows()
+      .filter((info) => info.kind === kind)
+      .flatMap(({ id }) => this.get(id) ?? []);
+  }
+
   focus(id: string) {
     this.get(id)?.focus();
   }
@@ -0,0 +1,93 @@
+// main/zip.ts
+import { writeFile } from "node:fs/promises";
+import { promisify } from "node:util";
+import { crc32, deflateRaw } from "node:zlib";
+
+export interface ZipEntry {
+  /** Path inside the archive, `/`-separated. */
+  name: string;
+  data: Buffer | string;
+  /** Store without compressing (e.g. data that is already gzipped). */
+  store?: boolean;
+  mtime?: Date;
+}
+
+const STORE = 0;
+const DEFLATE = 8;
+/** General-purpose flag bit 11: names are UTF-8. */
+const UTF8 = 0x0800;
+
+const deflateRawAsync = promisify(deflateRaw);
+
+function dosDateTime(d: Date) {
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+  const date = (Math.max(d.getFullYear() - 1980, 0) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, date };
+}
+
+/**
+ * Build a zip archive in memory. Deliberately minimal: no zip64, so the
+ * archive and every entry must stay under 4 GB, which diagnostic bundles do.
+ * Compression runs on the libuv thread pool, keeping the main process (and
+ * every window) responsive while tens of MB of logs are deflated.
+ */
+export async function buildZip(entries: ZipEntry[]): Promise<Buffer> {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const raw = typeof entry.data === "string" ? Buffer.from(entry.data, "utf-8") : entry.data;
+    const method = entry.store ? STORE : DEFLATE;
+    const body = method === DEFLATE ? await deflateRawAsync(raw) : raw;
+    const crc = crc32(raw);
+    const { time, date } = dosDateTime(entry.mtime ?? new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(UTF8, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // extra length
+    locals.push(local, name, body);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4); // version made by
+    header.writeUInt16LE(20, 6); // version needed
+    header.writeUInt16LE(UTF8, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(body.length, 20);
+    header.writeUInt32LE(raw.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    // extra, comment, disk, internal attrs, external attrs: all zero
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralSize = central.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...central, end]);
+}
+
+export async function writeZip(path: string, entries: ZipEntry[]): Promise<void> {
+  await writeFile(path, await buildZip(entries));
+}
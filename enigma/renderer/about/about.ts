@@ -0,0 +1,82 @@
+import { Logger } from "@shared/logger";
+import { startLogForwarding } from "@shared/logForwarder";
+import { ipcClient } from "@shared/ipcClient";
+import { Events, type UpdateStatus } from "@shared/ipcChannels";
+import { installCommandPalette } from "../commandPalette";
+
+startLogForwarding();
+installCommandPalette();
+const log = Logger.get("renderer:about");
+
+function describeUpdate(status: UpdateStatus): string {
+  switch (status.state) {
+    case "disabled":
+      return status.message ?? "Updates are not available.";
+    case "idle":
+      return `Channel: ${status.channel}`;
+    case "checking":
+      return "Checking for updates…";
+    case "available":
+      return `Version ${status.version} is available.`;
+    case "not-available":
+      return `Up to date (${status.channel} channel).`;
+    case "downloading":
+      return `Downloading ${status.version}… ${Math.floor(status.progress?.percent ?? 0)}%`;
+    case "downloaded":
+      return `Version ${status.version} is ready to install.`;
+    case "error":
+      return `Update failed: ${status.message}`;
+  }
+}
+
+/** Loading, a check or an install failed before main could report it through the status. */
+function showFailure(action: string, err: unknown) {
+  log.warn(`${action} failed`, err);
+  const text = document.getElementById("update-status")!;
+  text.textContent = `${action} failed: ${err instanceof Error ? err.message : String(err)}`;
+  text.classList.add("error");
+}
+
+function showUpdate(status: UpdateStatus) {
+  const text = document.getElementById("update-status")!;
+  text.textContent = describeUpdate(status);
+  text.classList.toggle("error", status.state === "error");
+
+  const progress = document.getElementById("update-progress") as HTMLProgressElement;
+  progress.hidden = status.state !== "downloading";
+  progress.value = status.progress?.percent ?? 0;
+
+  const check = document.getElementById("check-updates") as HTMLButtonElement;
+  check.hidden = status.state === "disabled" || status.state === "downloaded";
+  check.disabled = status.state === "checking" || status.state === "downloading";
+  document.getElementById("install-update")!.hidden = status.state !== "downloaded";
+}
+
+(async () => {
+  const { name, version, versions } = await ipcClient.getAppInfo();
+  document.title = `About ${name}`;
+  document.getElementById("name")!.textContent = name;
+  document.getElementById("version")!.textContent = `Version ${version}`;
+
+  const list = document.getElementById("versions")!;
+  for (const [label, value] of Object.entries(versions)) {
+    const dt = document.createElement("dt");
+    dt.textContent = label;
+    const dd = document.createElement("dd");
+    dd.textContent = value;
+    list.append(dt, dd);
+  }
+
+  ipcClient.on(Events.UpdateStatusChanged, showUpdate);
+  document.getElementById("check-updates")!.addEventListener("click", async () => {
+    try {
+      showUpdate(await ipcClient.checkForUpdates());
+    } catch (err) {
+      showFailure("Update check", err);
+    }
+  });
+  document.getElementById("install-update")!.addEventListener("click", () => {
+    ipcClient.installUpdate().catch((err) => showFailure("Install", err));
+  });
+  showUpdate(await ipcClient.getUpdateStatus());
+})().catch((err) => showFailure("Loading", err));
@@ -0,0 +1,149 @@
+// renderer/commandPalette.ts
+import { formatAccelerator } from "@shared/accelerators";
+import { Events, type CommandInfo } from "@shared/ipcChannels";
+import { ipcClient } from "@shared/ipcClient";
+import { Logger } from "@shared/logger";
+
+const log = Logger.get("renderer:palette");
+
+/** Every whitespace-separated word of the query appears in "Category: Title". */
+function matches(command: CommandInfo, query: string): boolean {
+  const haystack = `${command.category}: ${command.title}`.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => haystack.includes(word));
+}
+
+/**
+ * Modal list of the main process's commands, opened by the
+ * "view.commandPalette" shortcut. Type to filter, arrows to move, Enter to
+ * run, Escape to close.
+ */
+class CommandPalette {
+  private dialog = document.createElement("dialog");
+  private input = document.createElement("input");
+  private list = document.createElement("ul");
+  private status = document.createElement("p");
+  private platform = "";
+  private commands: CommandInfo[] = [];
+  private visible: CommandInfo[] = [];
+  private selected = 0;
+
+  constructor() {
+    this.dialog.className = "command-palette";
+    this.input.type = "search";
+    this.input.placeholder = "Type a command";
+    this.input.setAttribute("aria-label", "Command");
+    this.list.setAttribute("role", "listbox");
+    this.status.className = "status";
+    this.status.setAttribute("role", "status");
+    this.dialog.append(this.input, this.list, this.status);
+    document.body.append(this.dialog);
+
+    this.input.addEventListener("input", () => {
+      this.selected = 0;
+      this.render();
+    });
+    this.input.addEventListener("keydown", (e) => this.onKey(e));
+    // Clicking the backdrop lands on the dialog element itself.
+    this.dialog.addEventListener("click", (e) => {
+      if (e.target === this.dialog) this.dialog.close();
+    });
+  }
+
+  async open() {
+    if (this.dialog.open) {
+      this.input.select();
+      return;
+    }
+    const { platform, commands } = await ipcClient.listCommands();
+    this.platform = platform;
+    this.commands = commands.filter((c) => c.palette);
+    this.input.value = "";
+    this.status.textContent = "";
+    this.selected = 0;
+    this.render();
+    this.dialog.showModal();
+    this.input.focus();
+  }
+
+  private onKey(e: KeyboardEvent) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!this.visible.length) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      this.highlight((this.selected + step + this.visible.length) % this.visible.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const command = this.visible[this.selected];
+      if (command) void this.run(command);
+    }
+  }
+
+  private async run(command: CommandInfo) {
+    if (!command.enabled) return;
+    // Close first so commands that open dialogs or focus other windows aren't
+    // fighting the modal.
+    this.dialog.close();
+    try {
+      await ipcClient.runCommand(command.id);
+    } catch (err) {
+      log.warn(`Command ${command.id} failed`, err);
+      // Reopen to show the failure; if even that fails, the log is all there is.
+      try {
+        await this.open();
+      } catch (reopenErr) {
+        log.error("Failed to reopen command palette", reopenErr);
+        return;
+      }
+      this.status.textContent = `${command.title}: ${(err as Error)?.message ?? err}`;
+    }
+  }
+
+  private render() {
+    const query = this.input.value.trim();
+    this.visible = query ? this.commands.filter((c) => matches(c, query)) : this.commands;
+
+    this.list.replaceChildren(
+      ...this.visible.map((command, i) => {
+        const li = document.createElement("li");
+        li.setAttribute("role", "option");
+        li.setAttribute("aria-disabled", String(!command.enabled));
+
+        const category = document.createElement("span");
+        category.className = "category";
+        category.textContent = `${command.category}: `;
+        const title = document.createElement("span");
+        title.className = "title";
+        title.textContent = command.checked === null ? command.title : `${command.checked ? "✓ " : ""}${command.title}`;
+        const keys = document.createElement("kbd");
+        keys.textContent = command.accelerator ? formatAccelerator(command.accelerator, this.platform) : "";
+
+        li.append(category, title, keys);
+        li.addEventListener("mousemove", () => this.selected !== i && this.highlight(i));
+        li.addEventListener("click", () => void this.run(command));
+        return li;
+      })
+    );
+
+    if (!this.visible.length) this.status.textContent = "No matching commands.";
+    else if (this.status.textContent === "No matching commands.") this.status.textContent = "";
+    this.highlight(this.selected);
+  }
+
+  /** Move the selection without rebuilding the list (keeps hover/click targets stable). */
+  private highlight(index: number) {
+    this.selected = index;
+    Array.from(this.list.children).forEach((li, i) => li.setAttribute("aria-selected", String(i === index)));
+    this.list.children[index]?.scrollIntoView({ block: "nearest" });
+  }
+}
+
+/** Add the command palette to this window; pages also @import "../commandPalette.css". */
+export function installCommandPalette(): void {
+  const palette = new CommandPalette();
+  ipcClient.on(Events.OpenCommandPalette, () => {
+    palette.open().catch((err) => log.error("Failed to open command palette", err));
+  });
+}
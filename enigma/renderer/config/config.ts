@@ -0,0 +1,52 @@
+import { Logger } from "@shared/logger";
+import { startLogForwarding } from "@shared/logForwarder";
+import { ipcClient } from "@shared/ipcClient";
+import { installCommandPalette } from "../commandPalette";
+
+startLogForwarding();
+installCommandPalette();
+const log = Logger.get("renderer:config");
+
+function cell(text: string, className?: string) {
+  const td = document.createElement("td");
+  td.textContent = text;
+  if (className) td.className = className;
+  return td;
+}
+
+function item(text: string, className?: string) {
+  const li = document.createElement("li");
+  li.textContent = text;
+  if (className) li.className = className;
+  return li;
+}
+
+(async () => {
+  const { entries, files, warnings } = await ipcClient.getEffectiveConfig();
+
+  document.getElementById("entries")!.replaceChildren(
+    ...entries.map(({ key, value, source }) => {
+      const row = document.createElement("tr");
+      // Highlight anything not coming from the built-in defaults.
+      row.append(cell(key), cell(JSON.stringify(value)), cell(source, source === "default" ? "source" : "source overridden"));
+      return row;
+    })
+  );
+
+  document.getElementById("files")!.replaceChildren(
+    ...files.map(({ path, status, error }) =>
+      item(`${path} — ${error ?? status}`, status === "loaded" ? undefined : status)
+    )
+  );
+
+  if (warnings.length) {
+    document.getElementById("warnings-section")!.hidden = false;
+    document.getElementById("warnings")!.replaceChildren(...warnings.map((w) => item(w)));
+  }
+})().catch((err) => {
+  log.error("Failed to load the effective config", err);
+  document.getElementById("warnings-section")!.hidden = false;
+  document
+    .getElementById("warnings")!
+    .replaceChildren(item(`Couldn't load the effective config: ${(err as Error)?.message ?? err}`, "error"));
+});
@@ -0,0 +1,378 @@
+import type { ParsedLogEntry } from "@shared/logParser";
+import type { LoadedLogFile, LogFileInfo } from "@shared/ipcBridge";
+
+/** Cap for the live (tailed) source; opened files are loaded whole. */
+const MAX_LIVE_ENTRIES = 10_000;
+const LEVELS = ["error", "warn", "info", "verbose", "debug", "silly", "unknown"] as const;
+
+interface Filters {
+  levels: Set<string>;
+  context: string;
+  search: RegExp | null;
+}
+
+interface Source {
+  label: string;
+  entries: ParsedLogEntry[];
+  active: boolean;
+  loaded: boolean;
+  error?: string;
+  info?: LogFileInfo;
+}
+
+const logEl = document.getElementById("log")!;
+const levelsEl = document.getElementById("levels")!;
+const contextEl = document.getElementById("context") as HTMLInputElement;
+const contextsEl = document.getElementById("contexts")!;
+const searchEl = document.getElementById("search") as HTMLInputElement;
+const regexEl = document.getElementById("regex") as HTMLInputElement;
+const pauseEl = document.getElementById("pause") as HTMLButtonElement;
+const statusEl = document.getElementById("status")!;
+const fileListEl = document.getElementById("file-list")!;
+
+/** Keyed by absolute path; the live file is the one being tailed. */
+const sources = new Map<string, Source>();
+const contexts = new Set<string>();
+let filters: Filters = { levels: new Set(LEVELS), context: "", search: null };
+let paused = false;
+let livePath = "";
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function fileName(path: string) {
+  return path.split(/[\\/]/).pop() ?? path;
+}
+
+function entryKey(entry: ParsedLogEntry) {
+  return `${entry.source ?? ""}#${entry.seq}`;
+}
+
+function activeSources() {
+  return [...sources.values()].filter((s) => s.active && s.loaded);
+}
+
+/** Entries of every active source merged into one timeline (stable for equal times). */
+function timeline(): ParsedLogEntry[] {
+  const active = activeSources();
+  if (active.length === 1) return active[0].entries;
+  return active
+    .flatMap((s) => s.entries)
+    .map((entry, i) => ({ entry, i }))
+    .sort((a, b) => (a.entry.time ?? 0) - (b.entry.time ?? 0) || a.i - b.i)
+    .map(({ entry }) => entry);
+}
+
+function matches(entry: ParsedLogEntry): boolean {
+  if (!filters.levels.has(entry.level)) return false;
+  if (filters.context && !(entry.context ?? "").toLowerCase().includes(filters.context)) return false;
+  if (filters.search) {
+    filters.search.lastIndex = 0;
+    if (!filters.search.test(`${entry.context ?? ""} ${entry.message}`)) return false;
+  }
+  return true;
+}
+
+/** Append `text` to `parent`, wrapping search hits in <mark>. Text only, never HTML. */
+function appendHighlighted(parent: HTMLElement, text: string) {
+  const re = filters.search;
+  if (!re) {
+    parent.append(text);
+    return;
+  }
+  let last = 0;
+  re.lastIndex = 0;
+  for (const m of text.matchAll(re)) {
+    if (!m[0]) break; // zero-length match (e.g. /^/) would never advance
+    parent.append(text.slice(last, m.index));
+    const mark = document.createElement("mark");
+    mark.textContent = m[0];
+    parent.append(mark);
+    last = m.index! + m[0].length;
+  }
+  parent.append(text.slice(last));
+}
+
+function renderEntry(entry: ParsedLogEntry): HTMLElement {
+  const row = document.createElement("div");
+  row.className = `entry ${entry.level}`;
+  row.dataset.key = entryKey(entry);
+
+  if (activeSources().length > 1 && entry.source) {
+    const src = document.createElement("span");
+    src.className = "src";
+    src.textContent = `${fileName(entry.source)} `;
+    row.append(src);
+  }
+
+  const ts = document.createElement("span");
+  ts.className = "ts";
+  ts.textContent = entry.ts ? `${entry.ts} ` : "";
+  row.append(ts);
+
+  if (entry.context) {
+    const ctx = document.createElement("span");
+    ctx.className = "ctx";
+    ctx.textContent = `[${entry.context}] `;
+    row.append(ctx);
+  }
+
+  const msg = document.createElement("span");
+  appendHighlighted(msg, entry.message);
+  row.append(msg);
+  return row;
+}
+
+function isAtBottom() {
+  return logEl.scrollHeight - logEl.scrollTop - logEl.clientHeight < 4;
+}
+
+function scrollIfFollowing() {
+  if (!paused) logEl.scrollTop = logEl.scrollHeight;
+}
+
+function updateStatus() {
+  const total = activeSources().reduce((n, s) => n + s.entries.length, 0);
+  const live = sources.get(livePath)?.active ? " · live" : "";
+  statusEl.textContent = `${logEl.childElementCount} / ${total} entries${live}${paused ? " · paused" : ""}`;
+}
+
+function rerender() {
+  const frag = document.createDocumentFragment();
+  for (const entry of timeline()) if (matches(entry)) frag.append(renderEntry(entry));
+  logEl.replaceChildren(frag);
+  scrollIfFollowing();
+  updateStatus();
+}
+
+function noteContexts(entries: ParsedLogEntry[]) {
+  for (const { context } of entries) {
+    if (!context || contexts.has(context)) continue;
+    contexts.add(context);
+    const opt = document.createElement("option");
+    opt.value = context;
+    contextsEl.append(opt);
+  }
+}
+
+/** Entries without a parseable timestamp sort with the entry before them. */
+function fillTimes(entries: ParsedLogEntry[], last = 0) {
+  for (const entry of entries) {
+    if (entry.time === undefined) entry.time = last;
+    else last = entry.time;
+  }
+}
+
+/** Live tail: newest entries go at the bottom of the timeline, so they can be appended. */
+function addLiveEntries(batch: ParsedLogEntry[]) {
+  const live = sources.get(livePath);
+  if (!live) return;
+  const showing = live.active;
+  const frag = document.createDocumentFragment();
+
+  fillTimes(batch, live.entries[live.entries.length - 1]?.time);
+  for (const entry of batch) {
+    const prev = live.entries[live.entries.length - 1];
+    if (entry.continued && prev) {
+      prev.message += `\n${entry.message}`;
+      if (showing) {
+        const row = logEl.querySelector(`[data-key="${CSS.escape(entryKey(prev))}"]`);
+        row?.replaceWith(renderEntry(prev));
+      }
+      continue;
+    }
+    live.entries.push(entry);
+    if (showing && matches(entry)) frag.append(renderEntry(entry));
+  }
+  noteContexts(batch);
+
+  if (live.entries.length > MAX_LIVE_ENTRIES) {
+    const removed = live.entries.splice(0, live.entries.length - MAX_LIVE_ENTRIES);
+    if (showing) {
+      for (const entry of removed) logEl.querySelector(`[data-key="${CSS.escape(entryKey(entry))}"]`)?.remove();
+    }
+  }
+
+  if (showing) {
+    logEl.append(frag);
+    scrollIfFollowing();
+  }
+  updateStatus();
+}
+
+function addLoadedFiles(files: LoadedLogFile[]) {
+  for (const file of files) {
+    fillTimes(file.entries);
+    noteContexts(file.entries);
+    const existing = sources.get(file.path);
+    sources.set(file.path, {
+      label: fileName(file.path),
+      info: existing?.info,
+      entries: file.entries,
+      active: true,
+      loaded: true,
+      error: file.error,
+    });
+  }
+  renderFileList();
+  rerender();
+}
+
+async function setActive(path: string, active: boolean) {
+  const source = sources.get(path);
+  if (!source) return;
+  source.active = active;
+  if (active && !source.loaded) {
+    addLoadedFiles(await window.logViewer.openFiles([path]));
+    return;
+  }
+  rerender();
+}
+
+function renderFileList() {
+  const items = [...sources.entries()].map(([path, source]) => {
+    const li = document.createElement("li");
+    const label = document.createElement("label");
+    const cb = document.createElement("input");
+    cb.type = "checkbox";
+    cb.checked = source.active;
+    cb.addEventListener("change", () => void setActive(path, cb.checked));
+    label.append(cb, ` ${source.label}${path === livePath ? " (live)" : ""}`);
+    label.title = path;
+    li.append(label);
+
+    const meta = document.createElement("span");
+    meta.className = source.error ? "meta error" : "meta";
+    if (source.error) meta.textContent = source.error;
+    else if (source.info) meta.textContent = `${(source.info.size / 1024).toFixed(0)} KB · ${new Date(source.info.mtimeMs).toLocaleString()}`;
+    li.append(meta);
+    return li;
+  });
+  fileListEl.replaceChildren(...items);
+}
+
+async function refreshFileList() {
+  for (const info of await window.logViewer.listFiles()) {
+    const existing = sources.get(info.path);
+    if (existing) existing.info = info;
+    else sources.set(info.path, { label: info.name, info, entries: [], active: false, loaded: false });
+  }
+  renderFileList();
+}
+
+function setPaused(value: boolean) {
+  paused = value;
+  pauseEl.textContent = paused ? "Resume" : "Pause";
+  if (!paused) scrollIfFollowing();
+  updateStatus();
+}
+
+function readFilters() {
+  const levels = new Set<string>();
+  levelsEl.querySelectorAll<HTMLInputElement>("input").forEach((cb) => cb.checked && levels.add(cb.value));
+
+  let search: RegExp | null = null;
+  const query = searchEl.value;
+  searchEl.classList.remove("invalid");
+  searchEl.title = "";
+  if (query) {
+    try {
+      search = new RegExp(regexEl.checked ? query : escapeRegExp(query), "gi");
+    } catch (err) {
+      searchEl.classList.add("invalid");
+      searchEl.title = (err as Error).message;
+    }
+  }
+
+  filters = { levels, context: contextEl.value.trim().toLowerCase(), search };
+  rerender();
+}
+
+async function exportVisible(format: "text" | "json") {
+  const visible = timeline().filter(matches);
+  const content =
+    format === "json"
+      ? JSON.stringify(
+          visible.map(({ ts, level, context, message, source }) => ({ ts, level, context, message, source })),
+          null,
+          2
+        )
+      : visible
+          .map((e) => `${e.ts} [${e.level}]${e.context ? ` [${e.context}]` : ""} ${e.message}`)
+          .join("\n") + "\n";
+
+  const saved = await window.logViewer.exportEntries(format, content);
+  if (saved) statusEl.textContent = `Exported ${visible.length} entries to ${fileName(saved)}`;
+}
+
+for (const level of LEVELS) {
+  const label = document.createElement("label");
+  const cb = document.createElement("input");
+  cb.type = "checkbox";
+  cb.value = level;
+  cb.checked = true;
+  cb.addEventListener("change", readFilters);
+  label.append(cb, ` ${level}`);
+  levelsEl.append(label);
+}
+
+contextEl.addEventListener("input", readFilters);
+searchEl.addEventListener("input", readFilters);
+regexEl.addEventListener("change", readFilters);
+pauseEl.addEventListener("click", () => setPaused(!paused));
+document.getElementById("export-text")!.addEventListener("click", () => void exportVisible("text"));
+document.getElementById("export-json")!.addEventListener("click", () => void exportVisible("json"));
+document.getElementById("open")!.addEventListener("click", async () => {
+  addLoadedFiles(await window.logViewer.openFiles());
+});
+
+// Scrolling up pauses auto-scroll; scrolling back to the bottom resumes it.
+logEl.addEventListener("scroll", () => {
+  const atBottom = isAtBottom();
+  if (!paused && !atBottom) setPaused(true);
+  else if (paused && atBottom) setPaused(false);
+});
+
+// Drag-and-drop of log files sent in by users.
+document.addEventListener("dragover", (e) => {
+  e.preventDefault();
+  document.body.classList.add("dragging");
+});
+document.addEventListener("dragleave", (e) => {
+  if (!e.relatedTarget) document.body.classList.remove("dragging");
+});
+document.addEventListener("drop", async (e) => {
+  e.preventDefault();
+  document.body.classList.remove("dragging");
+  const files = Array.from(e.dataTransfer?.files ?? []);
+  if (files.length) addLoadedFiles(await window.logViewer.openDroppedFiles(files));
+});
+
+(async () => {
+  const initial = await window.logViewer.subscribe({
+    onEntries: addLiveEntries,
+    onRotate: () => {
+      // The rotated-out lines now live in an archive; offer it in the list.
+      void refreshFileList();
+      if (!sources.get(livePath)?.active) return;
+      const note = document.createElement("div");
+      note.className = "entry rotated";
+      note.textContent = "— log file rotated —";
+      logEl.append(note);
+      scrollIfFollowing();
+    },
+  });
+
+  livePath = initial.path;
+  fillTimes(initial.entries);
+  noteContexts(initial.entries);
+  sources.set(livePath, { label: fileName(livePath), entries: initial.entries, active: true, loaded: true });
+  await refreshFileList();
+  rerender();
+
+  // Files handed to the app from outside (command line, enigma://open links).
+  const takeRequested = async () => addLoadedFiles(await window.logViewer.takeRequestedFiles());
+  window.logViewer.onFilesRequested(() => void takeRequested());
+  await takeRequested();
+})();
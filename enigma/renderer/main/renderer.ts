@@ -1,16 +1,25 @@
 import { Logger } from "@shared/logger";
+import { startLogForwarding } from "@shared/logForwarder";
 import { ipcClient } from "@shared/ipcClient";
+import { Events } from "@shared/ipcChannels";
+import { installCommandPalette } from "../commandPalette";
 
+startLogForwarding();
+installCommandPalette();
 const log = Logger.get("renderer:main");
 
 (async () => {
   const appDiv = document.getElementById("app")!;
   appDiv.textContent = "Hello from renderer.";
 
+  ipcClient.on(Events.SettingsChanged, ({ settings, sourceWindowId }) => {
+    log.info("Settings changed", { settings, sourceWindowId });
+  });
+
   const ping = await ipcClient.ping();
   log.info("Ping result", ping);
   appDiv.textContent = `Ping: ${ping.ok} at ${new Date(ping.ts).toLocaleString()}`;
 
-  const saved = await ipcClient.saveSettings({ theme: "dark" });
-  log.info("Saved settings", saved);
+  const settings = await ipcClient.getSettings();
+  log.info("Loaded settings", settings);
 })();
@@ -0,0 +1,77 @@
+import { Logger } from "@shared/logger";
+import { startLogForwarding } from "@shared/logForwarder";
+import { ipcClient } from "@shared/ipcClient";
+import { Channels, Events } from "@shared/ipcChannels";
+import type { Settings } from "@shared/settingsSchema";
+import { SettingsForm } from "./settingsForm";
+import { ShortcutEditor } from "./shortcutEditor";
+import { installCommandPalette } from "../commandPalette";
+
+startLogForwarding();
+installCommandPalette();
+const log = Logger.get("renderer:settings");
+
+(async () => {
+  const formEl = document.getElementById("settings") as HTMLFormElement;
+  const status = document.getElementById("status")!;
+  let saved: Settings = await ipcClient.getSettings();
+  let dirty = false;
+
+  const form = new SettingsForm(document.getElementById("fields")!, () => {
+    dirty = true;
+    status.textContent = "";
+  });
+  form.setValues(saved);
+
+  const shortcuts = new ShortcutEditor(
+    document.getElementById("shortcut-list")!,
+    document.getElementById("shortcut-status")!
+  );
+  await shortcuts.refresh();
+
+  formEl.addEventListener("submit", async (e) => {
+    e.preventDefault();
+    if (!form.validate()) {
+      status.textContent = "Fix the highlighted fields before saving.";
+      return;
+    }
+
+    const result = await ipcClient.callSafe(Channels.SaveSettings, form.values());
+    if (!result.ok) {
+      log.warn("Save rejected", result);
+      form.showIssues(result.issues);
+      status.textContent = result.message;
+      return;
+    }
+
+    saved = result.data;
+    dirty = false;
+    form.setValues(saved);
+    status.textContent = "Saved.";
+  });
+
+  document.getElementById("revert")!.addEventListener("click", () => {
+    form.setValues(saved);
+    dirty = false;
+    status.textContent = "";
+  });
+
+  // enigma://settings/<field> opens (or refocuses) this window on one field.
+  const reveal = (target: string | undefined) => {
+    if (!target || form.focus(target)) return;
+    if (target === "shortcuts") document.getElementById("shortcuts")!.scrollIntoView();
+    else log.warn("Unknown settings field to reveal", target);
+  };
+  reveal(new URLSearchParams(location.search).get("field") ?? undefined);
+  ipcClient.on(Events.WindowParamsChanged, ({ params }) => reveal(params.field));
+
+  // Another window (or an import/profile switch) changed settings.
+  ipcClient.on(Events.SettingsChanged, ({ settings }) => {
+    saved = settings;
+    if (!dirty) form.setValues(saved);
+    shortcuts.refresh().catch((err) => log.warn("Failed to refresh shortcuts", err));
+  });
+})().catch((err) => {
+  log.error("Failed to load settings", err);
+  document.getElementById("status")!.textContent = `Couldn't load settings: ${(err as Error)?.message ?? err}`;
+});
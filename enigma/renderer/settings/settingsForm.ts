@@ -0,0 +1,165 @@
+// renderer/settings/settingsForm.ts
+import { z } from "zod";
+import {
+  Settings,
+  SettingsSchema,
+  editableSettingKeys,
+  settingMeta,
+  unwrapSetting,
+} from "@shared/settingsSchema";
+import type { IpcIssue } from "@shared/ipcResult";
+
+type InputElement = HTMLInputElement | HTMLSelectElement;
+
+interface FieldControl {
+  field: z.ZodType;
+  root: HTMLElement;
+  read(): unknown;
+  write(value: unknown): void;
+  error: HTMLElement;
+}
+
+/** "lastOpenedAt" -> "Last opened at", used when a field has no `title` meta. */
+function humanize(key: string): string {
+  const words = key.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Pick a control for the value schema: enum -> select, boolean -> toggle, number -> bounded input. */
+function createInput(schema: z.ZodType, id: string): Pick<FieldControl, "read" | "write"> & { input: InputElement } {
+  if (schema instanceof z.ZodEnum) {
+    const select = document.createElement("select");
+    for (const option of schema.options) {
+      const el = document.createElement("option");
+      el.value = String(option);
+      el.textContent = humanize(String(option));
+      select.append(el);
+    }
+    select.id = id;
+    return { input: select, read: () => select.value, write: (v) => (select.value = String(v ?? "")) };
+  }
+
+  const input = document.createElement("input");
+  input.id = id;
+
+  if (schema instanceof z.ZodBoolean) {
+    input.type = "checkbox";
+    input.setAttribute("role", "switch");
+    return { input, read: () => input.checked, write: (v) => (input.checked = !!v) };
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    input.type = "number";
+    if (Number.isFinite(schema.minValue)) input.min = String(schema.minValue);
+    if (Number.isFinite(schema.maxValue)) input.max = String(schema.maxValue);
+    input.step = schema.isInt ? "1" : "any";
+    return {
+      input,
+      read: () => (input.value === "" ? undefined : input.valueAsNumber),
+      write: (v) => (input.value = v === undefined ? "" : String(v)),
+    };
+  }
+
+  input.type = "text";
+  return {
+    input,
+    read: () => (input.value === "" ? undefined : input.value),
+    write: (v) => (input.value = v === undefined ? "" : String(v)),
+  };
+}
+
+/**
+ * A form generated by walking `SettingsSchema`: one control per editable
+ * field, validated inline against that field's own schema.
+ */
+export class SettingsForm {
+  private controls = new Map<string, FieldControl>();
+
+  constructor(container: HTMLElement, onChange: () => void) {
+    for (const key of editableSettingKeys) {
+      const field = SettingsSchema.shape[key] as z.ZodType;
+      const meta = settingMeta(field);
+      const id = `setting-${key}`;
+
+      const root = document.createElement("div");
+      root.className = "field";
+
+      const label = document.createElement("label");
+      label.htmlFor = id;
+      label.textContent = meta.title ?? humanize(key);
+
+      const { input, read, write } = createInput(unwrapSetting(field), id);
+      input.addEventListener("input", () => {
+        this.validateField(key);
+        onChange();
+      });
+
+      const error = document.createElement("p");
+      error.className = "error";
+      root.append(label, input);
+      if (meta.description) {
+        const description = document.createElement("p");
+        description.className = "description";
+        description.textContent = meta.description;
+        root.append(description);
+      }
+      root.append(error);
+      container.append(root);
+
+      this.controls.set(key, { field, root, read, write, error });
+    }
+  }
+
+  setValues(settings: Settings) {
+    for (const [key, control] of this.controls) {
+      control.write((settings as Record<string, unknown>)[key]);
+      this.setError(key);
+    }
+  }
+
+  values(): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (const [key, control] of this.controls) {
+      const value = control.read();
+      if (value !== undefined) out[key] = value;
+    }
+    return out;
+  }
+
+  /** Scroll to a field and focus its control; false if there is no such field. */
+  focus(key: string): boolean {
+    const control = this.controls.get(key);
+    if (!control) return false;
+    control.root.scrollIntoView({ block: "center" });
+    control.root.querySelector<HTMLElement>("input, select")?.focus();
+    return true;
+  }
+
+  /** Validate every field; returns false if any is invalid. */
+  validate(): boolean {
+    let ok = true;
+    for (const key of this.controls.keys()) ok = this.validateField(key) && ok;
+    return ok;
+  }
+
+  /** Show issues reported by the main process (e.g. an `INVALID_REQUEST` envelope). */
+  showIssues(issues: IpcIssue[]) {
+    for (const issue of issues) {
+      const key = issue.path[0];
+      if (typeof key === "string" && this.controls.has(key)) this.setError(key, issue.message);
+    }
+  }
+
+  private validateField(key: string): boolean {
+    const control = this.controls.get(key)!;
+    const parsed = control.field.safeParse(control.read());
+    this.setError(key, parsed.success ? undefined : parsed.error.issues[0]?.message);
+    return parsed.success;
+  }
+
+  private setError(key: string, message?: string) {
+    const control = this.controls.get(key)!;
+    control.error.textContent = message ?? "";
+    control.root.classList.toggle("invalid", !!message);
+  }
+}
@@ -0,0 +1,118 @@
+// renderer/settings/shortcutEditor.ts
+import { acceleratorFromEvent, formatAccelerator } from "@shared/accelerators";
+import type { CommandInfo } from "@shared/ipcChannels";
+import { ipcClient } from "@shared/ipcClient";
+import { Logger } from "@shared/logger";
+
+const log = Logger.get("renderer:shortcuts");
+
+/**
+ * Table of commands with their keybindings. "Change" records the next key
+ * combination; bindings are saved immediately (independent of the settings
+ * form's Save) and rejected when another command already uses them.
+ */
+export class ShortcutEditor {
+  private platform = "";
+  private commands: CommandInfo[] = [];
+  /** Command currently waiting for a key combination. */
+  private recording: string | null = null;
+
+  constructor(
+    private body: HTMLElement,
+    private status: HTMLElement
+  ) {
+    // Capture phase, so the key never reaches page shortcuts or the form.
+    window.addEventListener("keydown", (e) => this.onKey(e), true);
+  }
+
+  async refresh() {
+    const { platform, commands } = await ipcClient.listCommands();
+    this.platform = platform;
+    this.commands = commands;
+    this.render();
+  }
+
+  private async onKey(e: KeyboardEvent) {
+    const id = this.recording;
+    if (!id) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === "Escape" && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+      this.recording = null;
+      this.status.textContent = "";
+      this.render();
+      return;
+    }
+    const accelerator = acceleratorFromEvent(e, this.platform === "darwin");
+    // Lone modifiers: keep waiting for the rest of the combination.
+    if (!accelerator) return;
+    this.recording = null;
+    await this.bind(id, accelerator);
+  }
+
+  /** `accelerator`: "" unbinds, null restores the default. */
+  private async bind(id: string, accelerator: string | null) {
+    try {
+      const { applied, conflict, commands } = await ipcClient.setKeybinding(id, accelerator);
+      this.commands = commands;
+      this.status.textContent =
+        applied || !conflict
+          ? ""
+          : `${accelerator ? this.format(accelerator) : "That shortcut"} is already used by “${conflict.title}”.`;
+    } catch (err) {
+      log.warn(`Failed to set keybinding for ${id}`, err);
+      this.status.textContent = `${(err as Error)?.message ?? err}`;
+    }
+    this.render();
+  }
+
+  private format(accelerator: string): string {
+    return formatAccelerator(accelerator, this.platform);
+  }
+
+  private render() {
+    this.body.replaceChildren(
+      ...this.commands.map((command) => {
+        const tr = document.createElement("tr");
+
+        const title = document.createElement("td");
+        title.textContent = `${command.category}: ${command.title}`;
+
+        const keys = document.createElement("td");
+        const kbd = document.createElement("kbd");
+        if (this.recording === command.id) {
+          kbd.textContent = "Press keys… (Esc to cancel)";
+          tr.className = "recording";
+        } else {
+          kbd.textContent = command.accelerator ? this.format(command.accelerator) : "—";
+        }
+        keys.append(kbd);
+
+        const actions = document.createElement("td");
+        actions.className = "shortcut-actions";
+        actions.append(
+          this.button("Change", () => {
+            this.recording = command.id;
+            this.status.textContent = "";
+            this.render();
+          }),
+          this.button("Remove", () => this.bind(command.id, ""), !command.accelerator),
+          this.button("Reset", () => this.bind(command.id, null), command.accelerator === command.defaultAccelerator)
+        );
+
+        tr.append(title, keys, actions);
+        return tr;
+      })
+    );
+  }
+
+  private button(label: string, onClick: () => void, disabled = false) {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = label;
+    button.disabled = disabled;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+}
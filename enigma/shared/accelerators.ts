@@ -0,0 +1,155 @@
+// shared/accelerators.ts
+// Helpers for Electron accelerator strings ("CmdOrCtrl+Shift+P"), used by
+// main to detect binding conflicts and by renderers to record new bindings.
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  command: "Cmd",
+  cmd: "Cmd",
+  control: "Ctrl",
+  ctrl: "Ctrl",
+  alt: "Alt",
+  option: "Alt",
+  altgr: "AltGr",
+  shift: "Shift",
+  super: "Super",
+  meta: "Super",
+};
+
+const MODIFIER_ORDER = ["Cmd", "Ctrl", "Alt", "AltGr", "Shift", "Super"];
+
+/**
+ * Canonical form of an accelerator for `platform`, so that
+ * "CmdOrCtrl+Shift+p" and "Shift+Control+P" compare equal on Windows.
+ */
+export function normalizeAccelerator(accelerator: string, platform: string): string {
+  const isMac = platform === "darwin";
+  const parts = accelerator.split(/\+(?!$)/).map((p) => p.trim());
+  const key = parts.pop() ?? "";
+  const mods = new Set<string>();
+
+  for (const part of parts) {
+    const lower = part.toLowerCase();
+    if (lower === "cmdorctrl" || lower === "commandorcontrol") mods.add(isMac ? "Cmd" : "Ctrl");
+    else if (lower === "super" || lower === "meta") mods.add(isMac ? "Cmd" : "Super");
+    else mods.add(MODIFIER_ALIASES[lower] ?? part);
+  }
+
+  const ordered = MODIFIER_ORDER.filter((m) => mods.has(m));
+  return [...ordered, key.length === 1 ? key.toUpperCase() : key].join("+");
+}
+
+/** Modifier names Electron accepts, lowercased. */
+const MODIFIERS = new Set([
+  "command", "cmd", "control", "ctrl", "commandorcontrol", "cmdorctrl",
+  "alt", "option", "altgr", "shift", "super", "meta",
+]);
+
+/** Named (non-character) keys Electron accepts, lowercased. */
+const NAMED_KEYS = new Set([
+  "plus", "space", "tab", "capslock", "numlock", "scrolllock", "backspace", "delete", "insert",
+  "return", "enter", "up", "down", "left", "right", "home", "end", "pageup", "pagedown",
+  "escape", "esc", "volumeup", "volumedown", "volumemute", "medianexttrack",
+  "mediaprevioustrack", "mediastop", "mediaplaypause", "printscreen",
+  "numdec", "numadd", "numsub", "nummult", "numdiv",
+]);
+
+const isFunctionKey = (key: string) => /^F([1-9]|1\d|2[0-4])$/i.test(key);
+
+function isKey(key: string): boolean {
+  const lower = key.toLowerCase();
+  return (
+    /^[a-z0-9]$/.test(lower) ||
+    (key.length === 1 && ")!@#$%^&*(:;+=<,_->.?/~`{][|\\}\"'".includes(key)) ||
+    /^num[0-9]$/.test(lower) ||
+    isFunctionKey(key) ||
+    NAMED_KEYS.has(lower)
+  );
+}
+
+/**
+ * Why `accelerator` can't be used as a command keybinding, or null if it
+ * can. Beyond Electron's grammar, keys other than F1–F24 need a modifier
+ * other than Shift: a menu accelerator on a plain key would take that key
+ * away from typing in every window.
+ */
+export function acceleratorProblem(accelerator: string): string | null {
+  const parts = accelerator.split(/\+(?!$)/).map((p) => p.trim());
+  const key = parts.pop() ?? "";
+  const unknown = parts.find((p) => !MODIFIERS.has(p.toLowerCase()));
+  if (unknown !== undefined) return `“${unknown}” is not a modifier key`;
+  if (!isKey(key)) return `“${key || accelerator}” is not a key that can be bound`;
+  if (isFunctionKey(key)) return null;
+  if (!parts.some((p) => p.toLowerCase() !== "shift")) {
+    return "Shortcuts need Ctrl, Cmd, Alt or Super (only F1–F24 work on their own)";
+  }
+  return null;
+}
+
+/** Physical key codes (KeyboardEvent.code) to accelerator key names. */
+const CODE_KEYS: Record<string, string> = {
+  Space: "Space",
+  Enter: "Enter",
+  Tab: "Tab",
+  Backspace: "Backspace",
+  Delete: "Delete",
+  Insert: "Insert",
+  Escape: "Escape",
+  Home: "Home",
+  End: "End",
+  PageUp: "PageUp",
+  PageDown: "PageDown",
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+  Minus: "-",
+  Equal: "=",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Backslash: "\\",
+  Semicolon: ";",
+  Quote: "'",
+  Comma: ",",
+  Period: ".",
+  Slash: "/",
+  Backquote: "`",
+};
+
+function keyFromCode(code: string): string | null {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  if (/^Numpad\d$/.test(code)) return `num${code.slice(6)}`;
+  if (/^F\d{1,2}$/.test(code)) return code;
+  return CODE_KEYS[code] ?? null;
+}
+
+/**
+ * Accelerator for a keydown, or null for a lone modifier or an unmappable
+ * key. The platform's primary modifier (Cmd on macOS, Ctrl elsewhere) is
+ * recorded as `CmdOrCtrl` so bindings carry across platforms.
+ */
+export function acceleratorFromEvent(
+  e: Pick<KeyboardEvent, "code" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">,
+  isMac: boolean
+): string | null {
+  const key = keyFromCode(e.code);
+  if (!key) return null;
+
+  const mods: string[] = [];
+  if (isMac ? e.metaKey : e.ctrlKey) mods.push("CmdOrCtrl");
+  if (isMac && e.ctrlKey) mods.push("Ctrl");
+  if (!isMac && e.metaKey) mods.push("Super");
+  if (e.altKey) mods.push("Alt");
+  if (e.shiftKey) mods.push("Shift");
+  return [...mods, key].join("+");
+}
+
+/** Accelerator as shown to users on `platform`, e.g. "⌘⇧P" on macOS. */
+export function formatAccelerator(accelerator: string, platform: string): string {
+  const normalized = normalizeAccelerator(accelerator, platform);
+  if (platform !== "darwin") return normalized;
+  const symbols: Record<string, string> = { Cmd: "⌘", Ctrl: "⌃", Alt: "⌥", Shift: "⇧" };
+  const parts = normalized.split(/\+(?!$)/);
+  const key = parts.pop()!;
+  return parts.map((p) => symbols[p] ?? `${p}+`).join("") + key;
+}
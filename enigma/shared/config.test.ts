@@ -0,0 +1,46 @@
+// shared/config.test.ts
+import { describe, expect, it } from 'vitest';
+import { argvLayer, defaultsLayer, isSecureFeedUrl, resolveConfig } from './config';
+
+describe('isSecureFeedUrl', () => {
+  it('accepts https feeds', () => {
+    expect(isSecureFeedUrl('https://updates.example.com/enigma')).toBe(true);
+  });
+
+  it('accepts http only on a loopback host', () => {
+    expect(isSecureFeedUrl('http://localhost:8080')).toBe(true);
+    expect(isSecureFeedUrl('http://127.0.0.1:8080/feed')).toBe(true);
+    expect(isSecureFeedUrl('http://[::1]:8080')).toBe(true);
+    expect(isSecureFeedUrl('http://updates.example.com')).toBe(false);
+    expect(isSecureFeedUrl('http://localhost.example.com')).toBe(false);
+  });
+
+  it('rejects other schemes and non-URLs', () => {
+    expect(isSecureFeedUrl('file:///tmp/feed')).toBe(false);
+    expect(isSecureFeedUrl('ftp://updates.example.com')).toBe(false);
+    expect(isSecureFeedUrl('updates.example.com')).toBe(false);
+    expect(isSecureFeedUrl('')).toBe(false);
+  });
+});
+
+describe('updates.feedUrl', () => {
+  const resolve = (...argv: string[]) => resolveConfig([defaultsLayer(), argvLayer(argv)]);
+
+  it('defaults to the built-in feed', () => {
+    expect(resolve().config.updates.feedUrl).toBe('');
+  });
+
+  it('takes an https or local feed from --update-url', () => {
+    expect(resolve('--update-url', 'https://updates.example.com').config.updates.feedUrl).toBe(
+      'https://updates.example.com'
+    );
+    expect(resolve('--update-url=http://localhost:8080').config.updates.feedUrl).toBe('http://localhost:8080');
+  });
+
+  it('rejects a remote http feed and keeps the default', () => {
+    const { config, warnings } = resolve('--update-url', 'http://updates.example.com');
+    expect(config.updates.feedUrl).toBe('');
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('updates.feedUrl');
+  });
+});
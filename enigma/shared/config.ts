@@ -1,42 +1,293 @@
 // shared/config.ts
-export type AppMode = 'development' | 'production' | 'test';
-
-export interface AppConfig {
-  mode: AppMode;
-  appName: string;
-  logging: {
-    level: 'error' | 'warn' | 'info' | 'verbose' | 'debug' | 'silly';
-    consoleLevel: 'error' | 'warn' | 'info' | 'verbose' | 'debug' | 'silly';
-    captureUnhandled: boolean;
-  };
-  windows: {
-    main: {
-      width: number;
-      height: number;
-    };
-  };
-}
+import { z } from 'zod';
 
-export const isRenderer = typeof window !== 'undefined' && !!(window as any).document;
+export const isRenderer = typeof window !== 'undefined' && typeof window.document !== 'undefined';
 export const isDev = !!(process.env.VITE_DEV_SERVER_URL || process.env.VITE_DEV);
 
-export function loadConfig(): AppConfig {
-  const mode = (process.env.NODE_ENV as AppMode) || (isDev ? 'development' : 'production');
-  const appName = (isRenderer ? document.title : process.env.APP_NAME) || 'Enigma';
+const LogLevelSchema = z.enum(['error', 'warn', 'info', 'verbose', 'debug', 'silly']);
+
+/** Env vars and flags arrive as strings; accept "true"/"false"/"1"/"0" as booleans. */
+const BooleanishSchema = z.preprocess(
+  (v) => (v === 'true' || v === '1' ? true : v === 'false' || v === '0' ? false : v),
+  z.boolean()
+);
+
+/**
+ * Update feeds must be https: the feed lists the checksums downloads are
+ * verified against, so anyone able to rewrite it could swap the installer.
+ * Plain http is accepted for a local test server, which main/updateService.ts
+ * only uses in unpackaged builds.
+ */
+export function isSecureFeedUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || (url.protocol === 'http:' && isLoopbackHost(url.hostname));
+  } catch {
+    return false;
+  }
+}
+
+function isLoopbackHost(hostname: string): boolean {
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+}
+
+const SizeSchema = z.coerce.number().int().positive();
+const CountSchema = z.coerce.number().int().min(0);
+
+export const AppConfigSchema = z.object({
+  mode: z.enum(['development', 'production', 'test']),
+  appName: z.string().min(1),
+  /** Skip session restore after a run that didn't quit cleanly. */
+  safeMode: BooleanishSchema,
+  /**
+   * Under `vite`, load pages from dist/ over app:// (as packaged builds do)
+   * instead of the dev server; run `vite build --watch` alongside.
+   */
+  devAppProtocol: BooleanishSchema,
+  logging: z.object({
+    level: LogLevelSchema,
+    consoleLevel: LogLevelSchema,
+    captureUnhandled: BooleanishSchema,
+    format: z.enum(['text', 'json']),
+    retention: z.object({
+      /** Rotate the active file once it exceeds this size. */
+      maxSizeMb: SizeSchema,
+      /** Rotated archives to keep (0 = unlimited). */
+      maxFiles: CountSchema,
+      /** Delete archives older than this (0 = never). */
+      maxAgeDays: CountSchema,
+      /** Gzip archives after rotation. */
+      compress: BooleanishSchema,
+    }),
+  }),
+  updates: z.object({
+    /**
+     * Generic update feed: a URL serving electron-builder's latest*.yml and
+     * artifacts. Empty uses the feed built into the app (`publish` in
+     * electron-builder.yaml), or disables updates if it has none.
+     */
+    feedUrl: z.string().refine((v) => v === '' || isSecureFeedUrl(v), 'Expected an https URL, http://localhost or ""'),
+    checkOnStartup: BooleanishSchema,
+  }),
+  windows: z.object({
+    main: z.object({
+      width: SizeSchema,
+      height: SizeSchema,
+    }),
+  }),
+});
+
+export type AppConfig = z.output<typeof AppConfigSchema>;
+export type AppMode = AppConfig['mode'];
+
+/**
+ * Every configurable value, by dotted path into `AppConfig`, with the
+ * environment variable and command-line flag (`--flag value` or
+ * `--flag=value`; booleans `--flag` or `--flag=value`) that set it.
+ */
+export const CONFIG_KEYS = {
+  mode: { env: 'NODE_ENV', flag: 'mode' },
+  appName: { env: 'APP_NAME', flag: 'app-name' },
+  safeMode: { env: 'ENIGMA_SAFE_MODE', flag: 'safe-mode' },
+  devAppProtocol: { env: 'ENIGMA_DEV_APP_PROTOCOL', flag: 'dev-app-protocol' },
+  'logging.level': { env: 'LOG_LEVEL', flag: 'log-level' },
+  'logging.consoleLevel': { env: 'LOG_CONSOLE_LEVEL', flag: 'log-console-level' },
+  'logging.captureUnhandled': { env: 'LOG_CAPTURE_UNHANDLED', flag: 'log-capture-unhandled' },
+  'logging.format': { env: 'LOG_FORMAT', flag: 'log-format' },
+  'logging.retention.maxSizeMb': { env: 'LOG_MAX_SIZE_MB', flag: 'log-max-size-mb' },
+  'logging.retention.maxFiles': { env: 'LOG_MAX_FILES', flag: 'log-max-files' },
+  'logging.retention.maxAgeDays': { env: 'LOG_MAX_AGE_DAYS', flag: 'log-max-age-days' },
+  'logging.retention.compress': { env: 'LOG_COMPRESS', flag: 'log-compress' },
+  'updates.feedUrl': { env: 'ENIGMA_UPDATE_URL', flag: 'update-url' },
+  'updates.checkOnStartup': { env: 'ENIGMA_UPDATE_CHECK', flag: 'update-check' },
+  'windows.main.width': { env: 'MAIN_WIN_WIDTH', flag: 'width' },
+  'windows.main.height': { env: 'MAIN_WIN_HEIGHT', flag: 'height' },
+} as const satisfies Record<string, { env: string; flag: string }>;
+
+export type ConfigKey = keyof typeof CONFIG_KEYS;
+
+const configKeys = Object.keys(CONFIG_KEYS) as ConfigKey[];
+
+/** One source of values, lowest precedence first when passed to `resolveConfig`. */
+export interface ConfigLayer {
+  values: Partial<Record<ConfigKey, unknown>>;
+  /** Where a key's value came from, e.g. `env LOG_LEVEL`. */
+  describe(key: ConfigKey): string;
+  /** Problems found while reading the source itself (unknown keys, bad syntax). */
+  warnings?: string[];
+}
+
+export interface ResolvedConfig {
+  config: AppConfig;
+  /** Which layer supplied each value. */
+  sources: Record<ConfigKey, string>;
+  /** Values rejected by validation, plus layer warnings. */
+  warnings: string[];
+}
+
+function leafSchema(key: ConfigKey): z.ZodType {
+  let schema: z.ZodType = AppConfigSchema;
+  for (const part of key.split('.')) schema = (schema as z.ZodObject).shape[part];
+  return schema;
+}
+
+type RawConfig = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function setPath(target: RawConfig, key: string, value: unknown) {
+  const parts = key.split('.');
+  const last = parts.pop()!;
+  for (const part of parts) {
+    const next = target[part];
+    target = isRecord(next) ? next : (target[part] = {});
+  }
+  target[last] = value;
+}
 
+function getPath(source: unknown, key: string): unknown {
+  let value = source;
+  for (const part of key.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+export function defaultsLayer(): ConfigLayer {
   return {
-    mode,
-    appName,
-    logging: {
-      level: (process.env.LOG_LEVEL as any) || 'info',
-      consoleLevel: (process.env.LOG_CONSOLE_LEVEL as any) || (isDev ? 'debug' : 'info'),
-      captureUnhandled: true,
-    },
-    windows: {
-      main: {
-        width: Number(process.env.MAIN_WIN_WIDTH || 1000),
-        height: Number(process.env.MAIN_WIN_HEIGHT || 700),
-      },
+    values: {
+      mode: isDev ? 'development' : 'production',
+      appName: 'Enigma',
+      safeMode: false,
+      devAppProtocol: false,
+      'logging.level': 'info',
+      'logging.consoleLevel': isDev ? 'debug' : 'info',
+      'logging.captureUnhandled': true,
+      'logging.format': 'text',
+      'logging.retention.maxSizeMb': 5,
+      'logging.retention.maxFiles': 5,
+      'logging.retention.maxAgeDays': 14,
+      'logging.retention.compress': false,
+      'updates.feedUrl': '',
+      'updates.checkOnStartup': true,
+      'windows.main.width': 1000,
+      'windows.main.height': 700,
     },
+    describe: () => 'default',
+  };
+}
+
+/** Values from a parsed JSON config file shaped like (part of) `AppConfig`. */
+export function fileLayer(path: string, data: unknown): ConfigLayer {
+  const values: ConfigLayer['values'] = {};
+  for (const key of configKeys) {
+    const value = getPath(data, key);
+    if (value !== undefined) values[key] = value;
+  }
+
+  const warnings: string[] = [];
+  const walk = (node: unknown, prefix: string) => {
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) return;
+    for (const [k, v] of Object.entries(node)) {
+      const key = prefix ? `${prefix}.${k}` : k;
+      if (key in CONFIG_KEYS) continue;
+      if (configKeys.some((known) => known.startsWith(`${key}.`))) walk(v, key);
+      else warnings.push(`${path}: unknown key "${key}"`);
+    }
   };
+  walk(data, '');
+
+  return { values, describe: () => `file ${path}`, warnings };
+}
+
+const configKeyByFlag = new Map<string, ConfigKey>(configKeys.map((key) => [CONFIG_KEYS[key].flag, key]));
+
+/**
+ * Whether `--flag` takes the next argument as its value. Boolean flags never
+ * do, so `--safe-mode notes.log` still hands `notes.log` to the app.
+ */
+function takesValue(key: ConfigKey): boolean {
+  return leafSchema(key) !== BooleanishSchema;
+}
+
+export function argvLayer(argv: readonly string[]): ConfigLayer {
+  const values: ConfigLayer['values'] = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([\w-]+)(?:=(.*))?$/.exec(argv[i]);
+    const key = match && configKeyByFlag.get(match[1]);
+    if (!key) continue; // not ours: Chromium/Electron switches pass through
+    if (match[2] !== undefined) {
+      values[key] = match[2];
+    } else if (takesValue(key) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      values[key] = argv[++i];
+    } else {
+      values[key] = 'true'; // bare boolean flag, e.g. `--log-compress`
+    }
+  }
+  return { values, describe: (key) => `flag --${CONFIG_KEYS[key].flag}` };
+}
+
+/**
+ * Arguments that aren't switches or the values of our own flags: file paths
+ * and URLs handed to the app on the command line.
+ */
+export function positionalArgs(argv: readonly string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-')) {
+      positional.push(arg);
+      continue;
+    }
+    const match = /^--([\w-]+)$/.exec(arg);
+    const key = match && configKeyByFlag.get(match[1]);
+    if (key && takesValue(key) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) i++; // `--flag value`
+  }
+  return positional;
+}
+
+export function envLayer(env: Record<string, string | undefined>): ConfigLayer {
+  const values: ConfigLayer['values'] = {};
+  for (const key of configKeys) {
+    const value = env[CONFIG_KEYS[key].env];
+    if (value !== undefined && value !== '') values[key] = value;
+  }
+  return { values, describe: (key) => `env ${CONFIG_KEYS[key].env}` };
+}
+
+/**
+ * Merge layers key by key, later layers winning. Each value is validated
+ * on its own, so an invalid one (say `LOG_LEVEL=bogus`) is reported and
+ * the next lower layer's value is kept instead.
+ */
+export function resolveConfig(layers: ConfigLayer[]): ResolvedConfig {
+  const raw: RawConfig = {};
+  const sources = {} as Record<ConfigKey, string>;
+  const warnings = layers.flatMap((layer) => layer.warnings ?? []);
+
+  for (const key of configKeys) {
+    const schema = leafSchema(key);
+    for (const layer of layers) {
+      if (!(key in layer.values)) continue;
+      const parsed = schema.safeParse(layer.values[key]);
+      if (!parsed.success) {
+        const reason = parsed.error.issues[0]?.message ?? 'invalid value';
+        warnings.push(`${layer.describe(key)}: ${JSON.stringify(layer.values[key])} rejected for ${key} (${reason})`);
+        continue;
+      }
+      setPath(raw, key, parsed.data);
+      sources[key] = layer.describe(key);
+    }
+  }
+
+  return { config: AppConfigSchema.parse(raw), sources, warnings };
+}
+
+/** `getPath` for reporting: the resolved value of one key. */
+export function configValue(config: AppConfig, key: ConfigKey): unknown {
+  return getPath(config, key);
 }
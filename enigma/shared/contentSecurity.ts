@@ -0,0 +1,45 @@
+// shared/contentSecurity.ts
+// Content-Security-Policy and related response headers for renderer pages.
+// Sent by main/appProtocol.ts with every app:// response and by the Vite dev
+// server (vite.config.mts), so pages carry no <meta> policy of their own.
+
+type Policy = Record<string, string>;
+
+const BASE_POLICY: Policy = {
+  'default-src': "'self'",
+  'script-src': "'self'",
+  'style-src': "'self' 'unsafe-inline'",
+  'img-src': "'self' data:",
+  'connect-src': "'self'",
+  'object-src': "'none'",
+  'base-uri': "'none'",
+  'form-action': "'none'",
+  // Only expressible as a header; a <meta> policy ignores it.
+  'frame-ancestors': "'none'",
+};
+
+/** Per-page tightening, by renderer entry (first path segment). */
+const PAGE_POLICY: Record<string, Policy> = {
+  // The crash fallback page runs no script; its links are handled by main.
+  crashed: { 'script-src': "'none'" },
+};
+
+export function contentSecurityPolicy(page?: string): string {
+  const policy = { ...BASE_POLICY, ...(page ? PAGE_POLICY[page] : undefined) };
+  return Object.entries(policy)
+    .map(([directive, value]) => `${directive} ${value}`)
+    .join('; ');
+}
+
+/** Headers for a response belonging to renderer entry `page`. */
+export function securityHeaders(page?: string): Record<string, string> {
+  return {
+    'Content-Security-Policy': contentSecurityPolicy(page),
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Referrer-Policy': 'no-referrer',
+    'Cross-Origin-Opener-Policy': 'same-origin',
+    'Cross-Origin-Resource-Policy': 'same-origin',
+    'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
+  };
+}
@@ -0,0 +1,119 @@
+// shared/ipcBridge.ts
+import {
+  Channels,
+  Events,
+  IpcContract,
+  IpcCallMeta,
+  IpcEventContract,
+  IpcOperationContract,
+  IpcRequest,
+  OperationRequest,
+  Operations,
+  RendererLogBatch,
+} from './ipcChannels';
+import type { IpcResult } from './ipcResult';
+import type { ParsedLogEntry } from './logParser';
+
+/**
+ * Shape of `window.api` as exposed by the preload. Derived from `IpcContract`
+ * and `IpcEventContract`, so adding a channel or event updates it for free.
+ */
+export interface EnigmaApi {
+  /**
+   * Invoke an allowlisted channel. Unknown channels resolve to an
+   * `UNKNOWN_CHANNEL` failure. The reply is unchecked; shared/ipcClient.ts
+   * validates it against the channel's response schema.
+   */
+  call<C extends keyof IpcContract>(
+    channel: C,
+    payload?: IpcRequest<C>,
+    meta?: IpcCallMeta
+  ): Promise<IpcResult<unknown>>;
+
+  /** Subscribe to an allowlisted event; returns an unsubscribe function. */
+  on<E extends keyof IpcEventContract>(event: E, listener: (payload: unknown) => void): () => void;
+
+  /**
+   * Start an allowlisted long-running operation under a caller-chosen id.
+   * `onProgress` receives raw progress updates until the returned promise
+   * settles; the result, like `call`'s, is checked by shared/ipcClient.ts.
+   */
+  startOperation<O extends keyof IpcOperationContract>(
+    op: O,
+    id: string,
+    payload: OperationRequest<O> | undefined,
+    onProgress: (progress: unknown) => void
+  ): Promise<IpcResult<unknown>>;
+
+  /** Ask the main process to abort a running operation. */
+  cancelOperation(id: string): Promise<void>;
+
+  /** Hand a batch of renderer log entries to main; resolves once main has written them. */
+  sendLogs(batch: RendererLogBatch): Promise<void>;
+}
+
+/** Shape of `window.logViewer`, exposed only to the log viewer by main/logViewerPreload.ts. */
+export interface LogViewerApi {
+  /**
+   * Start following the app log. Handlers receive entries appended after the
+   * returned history; `onRotate` fires when the file is rotated.
+   */
+  subscribe(handlers: {
+    onEntries(entries: ParsedLogEntry[]): void;
+    onRotate(): void;
+  }): Promise<{ path: string; entries: ParsedLogEntry[] }>;
+
+  /** Current and rotated log files in the app's logs folder, current first. */
+  listFiles(): Promise<LogFileInfo[]>;
+
+  /**
+   * Load and parse log files (plain or .gz). Without `paths`, shows an open
+   * dialog. Only files in the logs folder or already opened here are allowed.
+   */
+  openFiles(paths?: string[]): Promise<LoadedLogFile[]>;
+
+  /** Load files dropped on the window (Electron no longer exposes `File.path`). */
+  openDroppedFiles(files: File[]): Promise<LoadedLogFile[]>;
+
+  /** Save exported text through a save dialog; resolves to the path, or null if cancelled. */
+  exportEntries(format: 'text' | 'json', content: string): Promise<string | null>;
+
+  /**
+   * Load files queued for this window from outside (command line, enigma://
+   * links) and clear the queue. `onFilesRequested` fires when more arrive.
+   */
+  takeRequestedFiles(): Promise<LoadedLogFile[]>;
+  onFilesRequested(handler: () => void): void;
+}
+
+export interface LogFileInfo {
+  name: string;
+  path: string;
+  size: number;
+  mtimeMs: number;
+  /** The file the app is currently writing to. */
+  current: boolean;
+}
+
+export interface LoadedLogFile {
+  path: string;
+  entries: ParsedLogEntry[];
+  /** Set instead of entries when the file could not be read. */
+  error?: string;
+}
+
+const allowedChannels: ReadonlySet<string> = new Set(Object.values(Channels));
+const allowedEvents: ReadonlySet<string> = new Set(Object.values(Events));
+const allowedOperations: ReadonlySet<string> = new Set(Object.values(Operations));
+
+export function isAllowedChannel(channel: unknown): channel is Channels {
+  return typeof channel === 'string' && allowedChannels.has(channel);
+}
+
+export function isAllowedEvent(event: unknown): event is Events {
+  return typeof event === 'string' && allowedEvents.has(event);
+}
+
+export function isAllowedOperation(op: unknown): op is Operations {
+  return typeof op === 'string' && allowedOperations.has(op);
+}
@@ -1,29 +1,407 @@
 // shared/ipcChannels.ts
+import { z } from "zod";
+import { ProfileNameSchema, SettingsPatchSchema, SettingsSchema, UpdateChannelSchema } from "./settingsSchema";
 
 // 1) Channel names
 export enum Channels {
   Ping = "ping",
   GetSettings = "get-settings",
-  SaveSettings = "save-settings"
+  SaveSettings = "save-settings",
+  ExportSettings = "export-settings",
+  ImportSettings = "import-settings",
+  ResetSettings = "reset-settings",
+  ListProfiles = "list-profiles",
+  CreateProfile = "create-profile",
+  CloneProfile = "clone-profile",
+  RenameProfile = "rename-profile",
+  DeleteProfile = "delete-profile",
+  SwitchProfile = "switch-profile",
+  CreateDiagnosticBundle = "create-diagnostic-bundle",
+  GetEffectiveConfig = "get-effective-config",
+  GetAppInfo = "get-app-info",
+  GetLogSetup = "get-log-setup",
+  ListCommands = "list-commands",
+  RunCommand = "run-command",
+  SetKeybinding = "set-keybinding",
+  GetUpdateStatus = "get-update-status",
+  CheckForUpdates = "check-for-updates",
+  InstallUpdate = "install-update"
 }
 
-// 2) Request/Response contracts
-export interface PingReq { }
-export interface PingRes { ok: boolean; ts: number; }
+// 2) Request/Response schemas (validated at runtime on both sides)
+export const PingReqSchema = z.object({});
+export const PingResSchema = z.object({ ok: z.boolean(), ts: z.number() });
 
-export interface GetSettingsReq { }
-export interface GetSettingsRes { theme: "light" | "dark"; lastOpenedAt?: number; }
+export const GetSettingsReqSchema = z.object({});
+export const GetSettingsResSchema = SettingsSchema;
 
-export interface SaveSettingsReq { theme?: "light" | "dark"; }
-export type SaveSettingsRes = GetSettingsRes;
+export const SaveSettingsReqSchema = SettingsPatchSchema;
+export const SaveSettingsResSchema = SettingsSchema;
+
+export const SettingsChangeSchema = z.object({
+  key: z.string(),
+  from: z.unknown(),
+  to: z.unknown(),
+});
+
+export const ExportSettingsReqSchema = z.object({});
+/** `path` is null when the user cancelled the save dialog. */
+export const ExportSettingsResSchema = z.object({ path: z.string().nullable() });
+
+export const ImportSettingsReqSchema = z.object({});
+export const ImportSettingsResSchema = z.object({
+  path: z.string().nullable(),
+  /** False if the dialog was cancelled or the diff was declined. */
+  applied: z.boolean(),
+  settings: SettingsSchema,
+  changes: z.array(SettingsChangeSchema),
+  /** Fields from the file that were invalid and fell back to defaults. */
+  resetFields: z.array(z.string()),
+});
+
+export const ResetSettingsReqSchema = z.object({});
+export const ResetSettingsResSchema = z.object({
+  applied: z.boolean(),
+  settings: SettingsSchema,
+});
+
+/** Every profile mutation replies with the resulting list and active profile. */
+export const ProfilesResSchema = z.object({
+  active: z.string(),
+  profiles: z.array(z.string()),
+});
+
+export const ListProfilesReqSchema = z.object({});
+export const CreateProfileReqSchema = z.object({ name: ProfileNameSchema });
+export const CloneProfileReqSchema = z.object({ source: z.string(), name: ProfileNameSchema });
+export const RenameProfileReqSchema = z.object({ from: z.string(), to: ProfileNameSchema });
+export const DeleteProfileReqSchema = z.object({ name: z.string() });
+export const SwitchProfileReqSchema = z.object({ name: z.string() });
+
+export const DiagnosticBundleReqSchema = z.object({});
+/** `path` is null when the user cancelled the save dialog. */
+export const DiagnosticBundleResSchema = z.object({ path: z.string().nullable() });
+
+export const EffectiveConfigReqSchema = z.object({});
+export const EffectiveConfigResSchema = z.object({
+  /** One row per `ConfigKey`, with the layer that supplied it. */
+  entries: z.array(z.object({ key: z.string(), value: z.unknown(), source: z.string() })),
+  files: z.array(
+    z.object({
+      path: z.string(),
+      status: z.enum(["loaded", "missing", "error"]),
+      error: z.string().optional(),
+    })
+  ),
+  warnings: z.array(z.string()),
+});
+
+export const AppInfoReqSchema = z.object({});
+export const AppInfoResSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  versions: z.object({ electron: z.string(), chromium: z.string(), node: z.string(), v8: z.string() }),
+});
+
+export const LogSetupReqSchema = z.object({});
+/** What a renderer needs to log like main: its window id and the configured format. */
+export const LogSetupResSchema = z.object({
+  windowId: z.number().int(),
+  format: z.enum(["text", "json"]),
+});
+
+/** A registered command as seen by renderers (palette, shortcut editor). */
+export const CommandInfoSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  category: z.string(),
+  /** Effective accelerator, null when unbound. */
+  accelerator: z.string().nullable(),
+  defaultAccelerator: z.string().nullable(),
+  enabled: z.boolean(),
+  /** Toggle state, null for plain commands. */
+  checked: z.boolean().nullable(),
+  /** False for commands that don't belong in the palette. */
+  palette: z.boolean(),
+});
+
+export const ListCommandsReqSchema = z.object({});
+export const ListCommandsResSchema = z.object({
+  /** `process.platform` of main, for displaying accelerators. */
+  platform: z.string(),
+  commands: z.array(CommandInfoSchema),
+});
+
+export const RunCommandReqSchema = z.object({ id: z.string().min(1) });
+export const RunCommandResSchema = z.object({ id: z.string() });
+
+export const SetKeybindingReqSchema = z.object({
+  id: z.string().min(1),
+  /** New accelerator; "" unbinds, null restores the command's default. */
+  accelerator: z.string().max(60).nullable(),
+});
+export const SetKeybindingResSchema = z.object({
+  /** False when the keys are already taken by `conflict`. */
+  applied: z.boolean(),
+  conflict: z.object({ id: z.string(), title: z.string() }).nullable(),
+  commands: z.array(CommandInfoSchema),
+});
+
+export const UpdateStatusSchema = z.object({
+  /**
+   * "available" is brief: downloads start on their own and move to
+   * "downloading", then "downloaded" once the checksum is verified.
+   */
+  state: z.enum(["disabled", "idle", "checking", "available", "not-available", "downloading", "downloaded", "error"]),
+  currentVersion: z.string(),
+  channel: UpdateChannelSchema,
+  /** Version on offer (available/downloading/downloaded). */
+  version: z.string().nullable(),
+  progress: z
+    .object({ percent: z.number(), transferred: z.number(), total: z.number(), bytesPerSecond: z.number() })
+    .nullable(),
+  /** Error text, or why updates are disabled. */
+  message: z.string().nullable(),
+  /** Epoch ms of the last completed check. */
+  checkedAt: z.number().nullable(),
+});
+
+export const GetUpdateStatusReqSchema = z.object({});
+export const CheckForUpdatesReqSchema = z.object({});
+export const InstallUpdateReqSchema = z.object({});
+export const InstallUpdateResSchema = z.object({});
+
+export type PingReq = z.input<typeof PingReqSchema>;
+export type PingRes = z.output<typeof PingResSchema>;
+
+export type GetSettingsReq = z.input<typeof GetSettingsReqSchema>;
+export type GetSettingsRes = z.output<typeof GetSettingsResSchema>;
+
+export type SaveSettingsReq = z.input<typeof SaveSettingsReqSchema>;
+export type SaveSettingsRes = z.output<typeof SaveSettingsResSchema>;
+
+export type SettingsChange = z.output<typeof SettingsChangeSchema>;
+export type ExportSettingsRes = z.output<typeof ExportSettingsResSchema>;
+export type ImportSettingsRes = z.output<typeof ImportSettingsResSchema>;
+export type ResetSettingsRes = z.output<typeof ResetSettingsResSchema>;
+export type ProfilesRes = z.output<typeof ProfilesResSchema>;
+export type DiagnosticBundleRes = z.output<typeof DiagnosticBundleResSchema>;
+export type EffectiveConfigRes = z.output<typeof EffectiveConfigResSchema>;
+export type AppInfoRes = z.output<typeof AppInfoResSchema>;
+export type LogSetupRes = z.output<typeof LogSetupResSchema>;
+export type CommandInfo = z.output<typeof CommandInfoSchema>;
+export type ListCommandsRes = z.output<typeof ListCommandsResSchema>;
+export type SetKeybindingRes = z.output<typeof SetKeybindingResSchema>;
+export type UpdateStatus = z.output<typeof UpdateStatusSchema>;
 
 // 3) Mapping table
-export interface IpcContract {
-  [Channels.Ping]: { req: PingReq; res: PingRes };
-  [Channels.GetSettings]: { req: GetSettingsReq; res: GetSettingsRes };
-  [Channels.SaveSettings]: { req: SaveSettingsReq; res: SaveSettingsRes };
-}
+export const IpcSchemas = {
+  [Channels.Ping]: { req: PingReqSchema, res: PingResSchema },
+  [Channels.GetSettings]: { req: GetSettingsReqSchema, res: GetSettingsResSchema },
+  [Channels.SaveSettings]: { req: SaveSettingsReqSchema, res: SaveSettingsResSchema },
+  [Channels.ExportSettings]: { req: ExportSettingsReqSchema, res: ExportSettingsResSchema },
+  [Channels.ImportSettings]: { req: ImportSettingsReqSchema, res: ImportSettingsResSchema },
+  [Channels.ResetSettings]: { req: ResetSettingsReqSchema, res: ResetSettingsResSchema },
+  [Channels.ListProfiles]: { req: ListProfilesReqSchema, res: ProfilesResSchema },
+  [Channels.CreateProfile]: { req: CreateProfileReqSchema, res: ProfilesResSchema },
+  [Channels.CloneProfile]: { req: CloneProfileReqSchema, res: ProfilesResSchema },
+  [Channels.RenameProfile]: { req: RenameProfileReqSchema, res: ProfilesResSchema },
+  [Channels.DeleteProfile]: { req: DeleteProfileReqSchema, res: ProfilesResSchema },
+  [Channels.SwitchProfile]: { req: SwitchProfileReqSchema, res: ProfilesResSchema },
+  [Channels.CreateDiagnosticBundle]: { req: DiagnosticBundleReqSchema, res: DiagnosticBundleResSchema },
+  [Channels.GetEffectiveConfig]: { req: EffectiveConfigReqSchema, res: EffectiveConfigResSchema },
+  [Channels.GetAppInfo]: { req: AppInfoReqSchema, res: AppInfoResSchema },
+  [Channels.GetLogSetup]: { req: LogSetupReqSchema, res: LogSetupResSchema },
+  [Channels.ListCommands]: { req: ListCommandsReqSchema, res: ListCommandsResSchema },
+  [Channels.RunCommand]: { req: RunCommandReqSchema, res: RunCommandResSchema },
+  [Channels.SetKeybinding]: { req: SetKeybindingReqSchema, res: SetKeybindingResSchema },
+  [Channels.GetUpdateStatus]: { req: GetUpdateStatusReqSchema, res: UpdateStatusSchema },
+  [Channels.CheckForUpdates]: { req: CheckForUpdatesReqSchema, res: UpdateStatusSchema },
+  [Channels.InstallUpdate]: { req: InstallUpdateReqSchema, res: InstallUpdateResSchema },
+} satisfies Record<Channels, { req: z.ZodType; res: z.ZodType }>;
+
+export type IpcContract = {
+  [C in Channels]: {
+    req: z.input<(typeof IpcSchemas)[C]["req"]>;
+    res: z.output<(typeof IpcSchemas)[C]["res"]>;
+  };
+};
 
 // Utility types
 export type IpcRequest<C extends keyof IpcContract> = IpcContract[C]['req'];
 export type IpcResponse<C extends keyof IpcContract> = IpcContract[C]['res'];
+/** Request as seen by main-side handlers, after schema parsing/defaults. */
+export type IpcParsedRequest<C extends keyof IpcContract> = z.output<(typeof IpcSchemas)[C]["req"]>;
+
+/** Per-call metadata sent alongside the payload; not part of any channel's contract. */
+export const IpcCallMetaSchema = z.object({
+  correlationId: z.string().max(100).optional(),
+});
+
+/** What actually crosses the bridge for a channel call. */
+export const IpcRequestFrameSchema = z.object({
+  payload: z.unknown(),
+  meta: IpcCallMetaSchema.default({}),
+});
+
+export type IpcCallMeta = z.infer<typeof IpcCallMetaSchema>;
+
+// 4) Main -> renderer events (fire-and-forget, no reply)
+export enum Events {
+  SettingsChanged = "settings-changed",
+  LogLineAppended = "log-line-appended",
+  WindowFocusChanged = "window-focus-changed",
+  ProfilesChanged = "profiles-changed",
+  OpenCommandPalette = "open-command-palette",
+  WindowParamsChanged = "window-params-changed",
+  UpdateStatusChanged = "update-status-changed"
+}
+
+export const SettingsChangedSchema = z.object({
+  settings: SettingsSchema,
+  /** BrowserWindow id of the window that caused the change, if any. */
+  sourceWindowId: z.number().optional(),
+});
+
+export const LogLineAppendedSchema = z.object({
+  level: z.string(),
+  text: z.string(),
+  ts: z.number(),
+});
+
+export const WindowFocusChangedSchema = z.object({
+  windowId: z.number(),
+  focused: z.boolean(),
+});
+
+/** An already-open singleton was asked to show new params (e.g. by an enigma:// link). */
+export const WindowParamsChangedSchema = z.object({
+  params: z.record(z.string(), z.string()),
+});
+
+export const EventSchemas = {
+  [Events.SettingsChanged]: SettingsChangedSchema,
+  [Events.LogLineAppended]: LogLineAppendedSchema,
+  [Events.WindowFocusChanged]: WindowFocusChangedSchema,
+  [Events.ProfilesChanged]: ProfilesResSchema,
+  [Events.OpenCommandPalette]: z.object({}),
+  [Events.WindowParamsChanged]: WindowParamsChangedSchema,
+  [Events.UpdateStatusChanged]: UpdateStatusSchema,
+} satisfies Record<Events, z.ZodType>;
+
+export type IpcEventContract = {
+  [E in Events]: z.output<(typeof EventSchemas)[E]>;
+};
+
+export type IpcEventPayload<E extends keyof IpcEventContract> = IpcEventContract[E];
+
+// 5) Long-running operations (cancellable, with progress)
+export enum Operations {
+  ScanFolder = "scan-folder"
+}
+
+/** Transport channels used by the bridge to drive operations; not callable directly. */
+export enum OperationChannels {
+  Start = "operation-start",
+  Cancel = "operation-cancel",
+  Progress = "operation-progress"
+}
+
+export const ScanFolderReqSchema = z.object({
+  path: z.string().min(1),
+  maxDepth: z.number().int().min(0).optional(),
+});
+
+export const ScanFolderProgressSchema = z.object({
+  files: z.number(),
+  dirs: z.number(),
+  bytes: z.number(),
+  current: z.string(),
+});
+
+export const ScanFolderResSchema = z.object({
+  files: z.number(),
+  dirs: z.number(),
+  bytes: z.number(),
+});
+
+export const OperationSchemas = {
+  [Operations.ScanFolder]: {
+    req: ScanFolderReqSchema,
+    progress: ScanFolderProgressSchema,
+    res: ScanFolderResSchema,
+  },
+} satisfies Record<Operations, { req: z.ZodType; progress: z.ZodType; res: z.ZodType }>;
+
+export type IpcOperationContract = {
+  [O in Operations]: {
+    req: z.input<(typeof OperationSchemas)[O]["req"]>;
+    progress: z.output<(typeof OperationSchemas)[O]["progress"]>;
+    res: z.output<(typeof OperationSchemas)[O]["res"]>;
+  };
+};
+
+export type OperationRequest<O extends keyof IpcOperationContract> = IpcOperationContract[O]['req'];
+export type OperationProgress<O extends keyof IpcOperationContract> = IpcOperationContract[O]['progress'];
+export type OperationResult<O extends keyof IpcOperationContract> = IpcOperationContract[O]['res'];
+export type OperationParsedRequest<O extends keyof IpcOperationContract> = z.output<(typeof OperationSchemas)[O]["req"]>;
+
+export const OperationStartSchema = z.object({
+  id: z.string().min(1),
+  op: z.enum(Operations),
+  payload: z.unknown(),
+});
+
+export const OperationCancelSchema = z.object({ id: z.string().min(1) });
+
+export const OperationProgressEnvelopeSchema = z.object({
+  id: z.string(),
+  progress: z.unknown(),
+});
+
+// 6) Renderer -> main log forwarding (batched; see shared/logForwarder.ts)
+export enum LogChannels {
+  Forward = "log-forward"
+}
+
+export const LogLevelSchema = z.enum(["error", "warn", "info", "verbose", "debug", "silly"]);
+
+export const ForwardedLogEntrySchema = z.object({
+  ts: z.string(),
+  level: LogLevelSchema,
+  context: z.string().max(200).optional(),
+  message: z.string().max(20_000),
+  args: z.array(z.unknown()).max(20).optional(),
+  correlationId: z.string().max(100).optional(),
+});
+
+export const RendererLogBatchSchema = z.object({
+  entries: z.array(ForwardedLogEntrySchema).max(200),
+  /** Entries the renderer discarded (queue full / rate limited) since the last batch. */
+  dropped: z.number().int().min(0),
+});
+
+export type ForwardedLogEntry = z.infer<typeof ForwardedLogEntrySchema>;
+export type RendererLogBatch = z.infer<typeof RendererLogBatchSchema>;
+
+// 7) Log viewer (own preload, plain ipcRenderer so it runs sandboxed; see main/logViewer.ts)
+export enum LogViewerChannels {
+  /** invoke: start tailing the app log for the calling window; returns the recent history. */
+  Subscribe = "log-viewer:subscribe",
+  /** main -> viewer: newly appended, parsed entries. */
+  Entries = "log-viewer:entries",
+  /** main -> viewer: the file was rotated and is being followed from the start. */
+  Rotated = "log-viewer:rotated",
+  /** invoke: log files (current and archived) in the logs folder. */
+  ListFiles = "log-viewer:list-files",
+  /** invoke: parse the given files, or ask the user to pick some when none are given. */
+  OpenFiles = "log-viewer:open-files",
+  /** invoke: parse files dropped on the window (paths resolved by the preload). */
+  OpenDropped = "log-viewer:open-dropped",
+  /** invoke: save already-formatted filtered output through a save dialog. */
+  Export = "log-viewer:export",
+  /** main -> viewer: files were sent from outside (launch args, enigma://open); take them. */
+  FilesRequested = "log-viewer:files-requested",
+  /** invoke: parse and clear the files queued for the calling window. */
+  TakeRequested = "log-viewer:take-requested"
+}
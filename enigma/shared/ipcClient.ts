@@ -1,22 +1,184 @@
 // shared/ipcClient.ts
-import { Channels, IpcContract, IpcRequest, IpcResponse } from './ipcChannels';
+import {
+  Channels,
+  EventSchemas,
+  IpcContract,
+  IpcEventContract,
+  IpcEventPayload,
+  IpcOperationContract,
+  IpcRequest,
+  IpcResponse,
+  IpcSchemas,
+  OperationProgress,
+  OperationRequest,
+  OperationResult,
+  OperationSchemas,
+  Operations,
+} from './ipcChannels';
+import type { EnigmaApi } from './ipcBridge';
+import { IpcError, IpcResult, ipcFail, ipcOk, isIpcResult, toIpcIssues } from './ipcResult';
+import { Logger } from './logger';
 
-type CallFn = <C extends keyof IpcContract>(
+const log = Logger.get('ipc-client');
+
+function getBridge(): EnigmaApi {
+  const api = (window as Partial<Window>).api;
+  if (!api) throw new Error('window.api is not available (preload not loaded?)');
+  return api;
+}
+
+/** Call a channel and return the envelope as-is; never throws. */
+async function callSafe<C extends keyof IpcContract>(
+  channel: C,
+  payload?: IpcRequest<C>
+): Promise<IpcResult<IpcResponse<C>>> {
+  // Follows the request into the main-side handler's log entries.
+  const correlationId = crypto.randomUUID();
+  const clog = log.with({ correlationId });
+  clog.debug(`-> ${channel}`);
+
+  const result = await settle();
+  if (result.ok) clog.debug(`<- ${channel}`);
+  else clog.warn(`<- ${channel} failed: ${result.code}`, result.message);
+  return result;
+
+  async function settle(): Promise<IpcResult<IpcResponse<C>>> {
+    let reply: unknown;
+    try {
+      reply = await getBridge().call(channel, payload, { correlationId });
+    } catch (err) {
+      return ipcFail('TRANSPORT_ERROR', `${channel}: ${(err as Error)?.message ?? err}`);
+    }
+
+    if (!isIpcResult(reply)) {
+      return ipcFail('INVALID_RESPONSE', `${channel}: reply is not an IPC envelope`);
+    }
+    if (!reply.ok) return reply;
+
+    const parsed = IpcSchemas[channel].res.safeParse(reply.data);
+    if (!parsed.success) {
+      return ipcFail('INVALID_RESPONSE', `${channel}: reply failed validation`, toIpcIssues(parsed.error));
+    }
+    return ipcOk(parsed.data as IpcResponse<C>);
+  }
+}
+
+/** Call a channel and unwrap the reply; failures are thrown as `IpcError`. */
+async function call<C extends keyof IpcContract>(
   channel: C,
   payload?: IpcRequest<C>
-) => Promise<IpcResponse<C>>;
+): Promise<IpcResponse<C>> {
+  const result = await callSafe(channel, payload);
+  if (!result.ok) throw new IpcError(result);
+  return result.data;
+}
+
+/**
+ * Subscribe to a main->renderer event. Payloads failing the event schema are
+ * dropped (and logged) rather than handed to `handler`.
+ * @returns an unsubscribe function.
+ */
+function on<E extends keyof IpcEventContract>(
+  event: E,
+  handler: (payload: IpcEventPayload<E>) => void
+): () => void {
+  return getBridge().on(event, (payload) => {
+    const parsed = EventSchemas[event].safeParse(payload);
+    if (!parsed.success) {
+      log.warn(`${event}: dropped invalid event payload`, parsed.error.issues);
+      return;
+    }
+    handler(parsed.data as IpcEventPayload<E>);
+  });
+}
+
+export interface RunOptions<O extends keyof IpcOperationContract> {
+  /** Aborting cancels the operation in the main process. */
+  signal?: AbortSignal;
+  onProgress?: (progress: OperationProgress<O>) => void;
+}
+
+/** Run a long-running operation and return the envelope as-is; never throws. */
+async function runSafe<O extends keyof IpcOperationContract>(
+  op: O,
+  payload?: OperationRequest<O>,
+  { signal, onProgress }: RunOptions<O> = {}
+): Promise<IpcResult<OperationResult<O>>> {
+  if (signal?.aborted) return ipcFail('CANCELLED', `${op} was cancelled before it started`);
+
+  const schemas = OperationSchemas[op];
+  // The operation id doubles as the correlation id in main-side logs.
+  const id = crypto.randomUUID();
+  log.with({ correlationId: id }).debug(`-> ${op} (operation)`);
+  const onAbort = () => {
+    getBridge().cancelOperation(id).catch((err) => log.warn(`${op}: cancel failed`, err));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let reply: unknown;
+  try {
+    reply = await getBridge().startOperation(op, id, payload, (progress) => {
+      const parsed = schemas.progress.safeParse(progress);
+      if (!parsed.success) {
+        log.warn(`${op}: dropped invalid progress update`, parsed.error.issues);
+        return;
+      }
+      onProgress?.(parsed.data as OperationProgress<O>);
+    });
+  } catch (err) {
+    return ipcFail('TRANSPORT_ERROR', `${op}: ${(err as Error)?.message ?? err}`);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  if (!isIpcResult(reply)) {
+    return ipcFail('INVALID_RESPONSE', `${op}: reply is not an IPC envelope`);
+  }
+  if (!reply.ok) return reply;
+
+  const parsed = schemas.res.safeParse(reply.data);
+  if (!parsed.success) {
+    return ipcFail('INVALID_RESPONSE', `${op}: result failed validation`, toIpcIssues(parsed.error));
+  }
+  return ipcOk(parsed.data as OperationResult<O>);
+}
 
-function getBridge(): CallFn {
-  const call = (window as any)?.api?.call as Function | undefined;
-  if (!call) throw new Error('window.api.call is not available (preload not loaded?)');
-  return call as CallFn;
+/** Run a long-running operation; failures (including cancellation) are thrown as `IpcError`. */
+async function run<O extends keyof IpcOperationContract>(
+  op: O,
+  payload?: OperationRequest<O>,
+  opts?: RunOptions<O>
+): Promise<OperationResult<O>> {
+  const result = await runSafe(op, payload, opts);
+  if (!result.ok) throw new IpcError(result);
+  return result.data;
 }
 
 export const ipcClient = {
-  call: getBridge(),
+  call,
+  callSafe,
+  on,
+  run,
+  runSafe,
   // Friendly wrappers (discoverable)
-  ping: () => getBridge()(Channels.Ping, {}),
-  getSettings: () => getBridge()(Channels.GetSettings, {}),
+  ping: () => call(Channels.Ping, {}),
+  getSettings: () => call(Channels.GetSettings, {}),
   saveSettings: (patch: IpcRequest<Channels.SaveSettings>) =>
-    getBridge()(Channels.SaveSettings, patch),
+    call(Channels.SaveSettings, patch),
+  exportSettings: () => call(Channels.ExportSettings, {}),
+  importSettings: () => call(Channels.ImportSettings, {}),
+  resetSettings: () => call(Channels.ResetSettings, {}),
+  listProfiles: () => call(Channels.ListProfiles, {}),
+  switchProfile: (name: string) => call(Channels.SwitchProfile, { name }),
+  createDiagnosticBundle: () => call(Channels.CreateDiagnosticBundle, {}),
+  getEffectiveConfig: () => call(Channels.GetEffectiveConfig, {}),
+  getAppInfo: () => call(Channels.GetAppInfo, {}),
+  listCommands: () => call(Channels.ListCommands, {}),
+  runCommand: (id: string) => call(Channels.RunCommand, { id }),
+  setKeybinding: (id: string, accelerator: string | null) => call(Channels.SetKeybinding, { id, accelerator }),
+  getUpdateStatus: () => call(Channels.GetUpdateStatus, {}),
+  checkForUpdates: () => call(Channels.CheckForUpdates, {}),
+  installUpdate: () => call(Channels.InstallUpdate, {}),
+  scanFolder: (req: OperationRequest<Operations.ScanFolder>, opts?: RunOptions<Operations.ScanFolder>) =>
+    run(Operations.ScanFolder, req, opts),
 };
@@ -0,0 +1,68 @@
+// shared/ipcResult.ts
+import type { z } from 'zod';
+
+/**
+ * Every IPC reply travels as an envelope so failures reach the renderer
+ * as data (with a stable code) rather than as a stringified exception.
+ */
+export type IpcErrorCode =
+  | 'INVALID_REQUEST'   // payload rejected by the channel's request schema
+  | 'INVALID_RESPONSE'  // handler (or main) returned something the response schema rejects
+  | 'HANDLER_ERROR'     // handler threw
+  | 'UNKNOWN_CHANNEL'   // refused by the preload allowlist
+  | 'CANCELLED'         // long-running operation aborted by the caller or window close
+  | 'TRANSPORT_ERROR';  // bridge missing or the call itself failed
+
+export interface IpcIssue {
+  path: (string | number)[];
+  code: string;
+  message: string;
+}
+
+export interface IpcSuccess<T> {
+  ok: true;
+  data: T;
+}
+
+export interface IpcFailure {
+  ok: false;
+  code: IpcErrorCode;
+  message: string;
+  issues: IpcIssue[];
+}
+
+export type IpcResult<T> = IpcSuccess<T> | IpcFailure;
+
+export function ipcOk<T>(data: T): IpcSuccess<T> {
+  return { ok: true, data };
+}
+
+export function ipcFail(code: IpcErrorCode, message: string, issues: IpcIssue[] = []): IpcFailure {
+  return { ok: false, code, message, issues };
+}
+
+/** Reduce zod issues to a plain, structured-clone-safe shape. */
+export function toIpcIssues(error: z.ZodError): IpcIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map((p) => (typeof p === 'number' ? p : String(p))),
+    code: issue.code,
+    message: issue.message,
+  }));
+}
+
+export function isIpcResult(value: unknown): value is IpcResult<unknown> {
+  return typeof value === 'object' && value !== null && 'ok' in value && typeof value.ok === 'boolean';
+}
+
+/** Thrown by `ipcClient.call` when the reply is an `IpcFailure`. */
+export class IpcError extends Error {
+  readonly code: IpcErrorCode;
+  readonly issues: IpcIssue[];
+
+  constructor(failure: IpcFailure) {
+    super(failure.message);
+    this.name = 'IpcError';
+    this.code = failure.code;
+    this.issues = failure.issues;
+  }
+}
@@ -0,0 +1,130 @@
+// shared/logForwarder.ts
+import { Logger, LogEntry, LogLevel } from './logger';
+import { Channels, type ForwardedLogEntry } from './ipcChannels';
+import { ipcClient } from './ipcClient';
+
+export interface LogForwarderOptions {
+  /** Lowest level forwarded to main. */
+  level?: LogLevel;
+  /** How often queued entries are flushed, in ms. */
+  flushIntervalMs?: number;
+  /** Entries per batch (main rejects batches over 200). */
+  maxBatch?: number;
+  /** Queue cap; beyond it the oldest entries are dropped. */
+  maxQueue?: number;
+  /** Sustained entries/second accepted before dropping. */
+  ratePerSecond?: number;
+  /** Give up on an unacknowledged batch after this long and move on. */
+  ackTimeoutMs?: number;
+}
+
+const LEVELS: LogLevel[] = ['error', 'warn', 'info', 'verbose', 'debug', 'silly'];
+
+const log = Logger.get('log-forwarder');
+
+let stopCurrent: (() => void) | undefined;
+
+/**
+ * Forward this renderer's Logger output to the main process, which writes it
+ * to the app log file. Entries are batched, rate-limited with a token bucket
+ * and, while main has not acknowledged the previous batch, queued up to a
+ * cap; anything over is dropped and reported as a count. Never throws into
+ * the caller and never logs through Logger once forwarding (that would loop).
+ * Also asks main for this window's id and the log format, so local JSON
+ * entries carry the same window id main tags forwarded ones with.
+ * @returns a function that stops forwarding.
+ */
+export function startLogForwarding(opts: LogForwarderOptions = {}): () => void {
+  const {
+    level = 'info',
+    flushIntervalMs = 500,
+    maxBatch = 100,
+    maxQueue = 1000,
+    ratePerSecond = 100,
+    ackTimeoutMs = 5000,
+  } = opts;
+
+  stopCurrent?.();
+
+  const api = (window as Partial<Window>).api;
+  if (!api) {
+    // No sink is installed yet, so this stays local.
+    log.warn('window.api is not available; renderer logs stay local');
+    return () => {};
+  }
+
+  // Entries logged before the reply arrives go out without the window id.
+  void ipcClient.callSafe(Channels.GetLogSetup, {}).then((setup) => {
+    if (setup.ok) Logger.configure({ windowId: setup.data.windowId, format: setup.data.format });
+  });
+
+  const threshold = LEVELS.indexOf(level);
+  const queue: ForwardedLogEntry[] = [];
+  let dropped = 0;
+  let inFlight = false;
+  let tokens = ratePerSecond;
+  let lastRefill = Date.now();
+
+  const takeToken = () => {
+    const now = Date.now();
+    tokens = Math.min(ratePerSecond, tokens + ((now - lastRefill) / 1000) * ratePerSecond);
+    lastRefill = now;
+    if (tokens < 1) return false;
+    tokens -= 1;
+    return true;
+  };
+
+  Logger.setSink((entry: LogEntry) => {
+    if (LEVELS.indexOf(entry.level) > threshold) return;
+    if (!takeToken()) {
+      dropped++;
+      return;
+    }
+    queue.push({
+      ts: entry.ts,
+      level: entry.level,
+      context: entry.context,
+      message: entry.message.slice(0, 20_000),
+      args: entry.args?.slice(0, 20),
+      correlationId: entry.correlationId,
+    });
+    if (queue.length > maxQueue) dropped += queue.splice(0, queue.length - maxQueue).length;
+    if (queue.length >= maxBatch) void flush();
+  });
+
+  async function flush() {
+    if (inFlight || (!queue.length && !dropped)) return;
+    inFlight = true;
+    const batch = { entries: queue.splice(0, maxBatch), dropped };
+    dropped = 0;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        api!.sendLogs(batch),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('ack timeout')), ackTimeoutMs);
+        }),
+      ]);
+    } catch {
+      // Main busy or gone: drop this batch rather than let the queue grow. The
+      // count goes out with the next batch, which main logs.
+      dropped += batch.entries.length;
+    } finally {
+      clearTimeout(timer);
+      inFlight = false;
+    }
+  }
+
+  const interval = setInterval(() => void flush(), flushIntervalMs);
+  const onUnload = () => void flush();
+  window.addEventListener('beforeunload', onUnload);
+
+  stopCurrent = () => {
+    clearInterval(interval);
+    window.removeEventListener('beforeunload', onUnload);
+    Logger.setSink(undefined);
+    stopCurrent = undefined;
+  };
+  return stopCurrent;
+}
@@ -0,0 +1,114 @@
+// shared/logParser.ts
+import type { LogLevel } from './logger';
+
+export interface ParsedLogEntry {
+  /** Monotonic per-source sequence number; stable key for the viewer. */
+  seq: number;
+  /** Timestamp as written (ISO in JSON mode, electron-log's format otherwise). */
+  ts: string;
+  /** `ts` as epoch ms when it could be parsed; used to merge files into one timeline. */
+  time?: number;
+  /** File the entry came from (absolute path); set by the log viewer's loaders. */
+  source?: string;
+  level: LogLevel | 'unknown';
+  context?: string;
+  message: string;
+  /**
+   * Set when this is continuation text (e.g. a stack trace) for the entry
+   * sent previously; the viewer appends `message` to it instead of adding a row.
+   */
+  continued?: boolean;
+}
+
+const LEVELS = new Set(['error', 'warn', 'info', 'verbose', 'debug', 'silly']);
+
+// electron-log default file format: "[2025-08-28 17:11:05.123] [info] text"
+const TEXT_LINE = /^\[(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d{1,3})?)\] \[(\w+)\]\s?(.*)$/;
+// Logger's text prefix: "[context] message"
+const CONTEXT_PREFIX = /^\[([^\]]+)\] ?(.*)$/s;
+
+function toTime(ts: string): number | undefined {
+  // electron-log writes local time as "YYYY-MM-DD HH:mm:ss.SSS"
+  const ms = Date.parse(ts.includes('T') ? ts : ts.replace(' ', 'T'));
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function toLevel(value: unknown): ParsedLogEntry['level'] {
+  return typeof value === 'string' && LEVELS.has(value) ? (value as LogLevel) : 'unknown';
+}
+
+/**
+ * Incremental parser for electron-log files, in either Logger format (plain
+ * text or one JSON entry per line). Lines that don't start a new entry are
+ * treated as continuations of the previous one.
+ */
+export class LogParser {
+  private seq = 0;
+
+  /** @param source stamped on every entry, see `ParsedLogEntry.source`. */
+  constructor(private readonly source?: string) {}
+
+  reset() {
+    this.seq = 0;
+  }
+
+  parse(lines: string[]): ParsedLogEntry[] {
+    const out: ParsedLogEntry[] = [];
+
+    for (const line of lines) {
+      if (!line) continue;
+      const entry = this.parseLine(line);
+      if (entry) {
+        out.push(entry);
+        continue;
+      }
+
+      const last = out[out.length - 1];
+      if (last) last.message += `\n${line}`;
+      else out.push({ seq: this.seq, ts: '', level: 'unknown', message: line, continued: true, source: this.source });
+    }
+
+    return out;
+  }
+
+  private parseLine(line: string): ParsedLogEntry | null {
+    if (line.startsWith('{')) {
+      try {
+        const json = JSON.parse(line);
+        if (json && typeof json === 'object' && typeof json.message === 'string') {
+          let message: string = json.message;
+          if (Array.isArray(json.args) && json.args.length) {
+            message += ' ' + json.args.map((a: unknown) => (typeof a === 'string' ? a : JSON.stringify(a))).join(' ');
+          }
+          const ts = String(json.ts ?? '');
+          return {
+            seq: ++this.seq,
+            ts,
+            time: toTime(ts),
+            source: this.source,
+            level: toLevel(json.level),
+            context: typeof json.context === 'string' ? json.context : undefined,
+            message,
+          };
+        }
+      } catch {
+        // not JSON after all; fall through to the text format
+      }
+    }
+
+    const m = TEXT_LINE.exec(line);
+    if (!m) return null;
+
+    const [, ts, level, rest] = m;
+    const ctx = CONTEXT_PREFIX.exec(rest);
+    return {
+      seq: ++this.seq,
+      ts,
+      time: toTime(ts),
+      source: this.source,
+      level: toLevel(level),
+      context: ctx ? ctx[1] : undefined,
+      message: ctx ? ctx[2] : rest,
+    };
+  }
+}
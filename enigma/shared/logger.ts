@@ -2,6 +2,7 @@
 import log from "electron-log";
 
 export type LogLevel = "error" | "warn" | "info" | "verbose" | "debug" | "silly";
+export type LogFormat = "text" | "json";
 
 export interface LoggerOptions {
   level?: LogLevel;
@@ -9,6 +10,59 @@ export interface LoggerOptions {
   logsDir?: string;
   appName?: string;
   capture?: boolean;
+  /** "json" writes one structured entry per line instead of `[context] message`. */
+  format?: LogFormat;
+  /** Rotate the main log file past this many bytes (main only). */
+  maxSize?: number;
+  /** Window this renderer belongs to; stamped on structured entries. */
+  windowId?: number;
+}
+
+/** Extra fields carried on structured entries (bound via `with()` or a meta provider). */
+export interface LogMeta {
+  correlationId?: string;
+  windowId?: number;
+  [key: string]: unknown;
+}
+
+/** Shape of one line in structured (`format: "json"`) mode. */
+export interface LogEntry extends LogMeta {
+  ts: string;
+  level: LogLevel;
+  process: "main" | "renderer";
+  context?: string;
+  message: string;
+  args?: unknown[];
+}
+
+/**
+ * Make a log argument JSON-safe. Errors keep name, message, stack and
+ * (recursively) cause; circular references are cut.
+ */
+export function serializeLogArg(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (value instanceof Error) {
+    if (seen.has(value)) return "[Circular]";
+    seen.add(value);
+    const out: Record<string, unknown> = {
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+    };
+    if (value.cause !== undefined) out.cause = serializeLogArg(value.cause, seen);
+    for (const [k, v] of Object.entries(value)) out[k] = serializeLogArg(v, seen);
+    return out;
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "function") return `[Function ${value.name || "anonymous"}]`;
+  if (typeof value !== "object" || value === null) return value;
+
+  if (seen.has(value)) return "[Circular]";
+  seen.add(value);
+  if (Array.isArray(value)) return value.map((v) => serializeLogArg(v, seen));
+  if (value instanceof Date) return value.toISOString();
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) out[k] = serializeLogArg(v, seen);
+  return out;
 }
 
 const isRenderer =
@@ -16,11 +70,22 @@ const isRenderer =
   typeof (window as any).document !== "undefined";
 
 export class Logger {
-  private constructor(private readonly context?: string) {}
+  private constructor(
+    private readonly context?: string,
+    private readonly meta: LogMeta = {}
+  ) {}
 
   private static _initialized = false;
-
-  /** Ensure each process (main/renderer) is configured at least once. */
+  private static format: LogFormat = "text";
+  private static windowId: number | undefined;
+  private static metaProvider: (() => LogMeta | undefined) | undefined;
+  private static sink: ((entry: LogEntry) => void) | undefined;
+
+  /**
+   * Ensure each process (main/renderer) is configured at least once. Runs on
+   * the first write rather than in `get()`, so module-level loggers configure
+   * nothing until something is actually logged.
+   */
   private static ensureConfigured() {
     if (!Logger._initialized) {
       Logger.configure({});
@@ -34,8 +99,14 @@ export class Logger {
       logsDir,
       appName = "app",
       capture = true,
+      format = "text",
+      windowId,
+      maxSize = 5 * 1024 * 1024,
     } = opts;
 
+    Logger.format = format;
+    Logger.windowId = windowId;
+
     // Always safe
     if (log.transports?.console) {
       log.transports.console.level = consoleLevel;
@@ -45,6 +116,7 @@ export class Logger {
 
     if (isRenderer) {
       // Renderer: keep console only; disable file transport if present.
+      // File logging happens in main via shared/logForwarder.ts.
       if (fileTransport) fileTransport.level = false;
 
       if (capture) {
@@ -52,12 +124,12 @@ export class Logger {
         if (anyLog.errorHandler && typeof anyLog.errorHandler.start === "function") {
           anyLog.errorHandler.start({
             showDialog: false,
-            onError: (error: unknown) => log.error("[unhandled]", error),
+            onError: (error: unknown) => new Logger("unhandled").error("Unhandled error", error),
           });
         } else if (typeof anyLog.catchErrors === "function") {
           anyLog.catchErrors({
             showDialog: false,
-            onError: (error: unknown) => log.error("[unhandled]", error),
+            onError: (error: unknown) => new Logger("unhandled").error("Unhandled error", error),
           });
         }
       }
@@ -73,7 +145,9 @@ export class Logger {
             fileTransport.resolvePath = () => `${logsDir}/${fileName}`;   // v4 fallback
           }
         }
-        fileTransport.maxSize = 5 * 1024 * 1024;
+        fileTransport.maxSize = maxSize;
+        // Structured lines must be the whole line: no date/level prefix.
+        if (format === "json") fileTransport.format = "{text}";
       }
 
       if (capture) {
@@ -81,12 +155,12 @@ export class Logger {
         if (anyLog.errorHandler && typeof anyLog.errorHandler.start === "function") {
           anyLog.errorHandler.start({
             showDialog: false,
-            onError: (error: unknown) => log.error("[unhandled]", error),
+            onError: (error: unknown) => new Logger("unhandled").error("Unhandled error", error),
           });
         } else if (typeof anyLog.catchErrors === "function") {
           anyLog.catchErrors({
             showDialog: false,
-            onError: (error: unknown) => log.error("[unhandled]", error),
+            onError: (error: unknown) => new Logger("unhandled").error("Unhandled error", error),
           });
         }
       }
@@ -96,25 +170,70 @@ export class Logger {
   }
 
   static get(context?: string) {
-    Logger.ensureConfigured();
     return new Logger(context);
   }
 
+  /**
+   * Supply ambient metadata (e.g. the correlation id of the IPC request being
+   * handled) merged into every structured entry. Main installs one backed by
+   * AsyncLocalStorage; see main/logContext.ts.
+   */
+  static setMetaProvider(provider: (() => LogMeta | undefined) | undefined) {
+    Logger.metaProvider = provider;
+  }
+
+  /**
+   * Receive a structured copy of every entry written through a Logger, in
+   * either format. Renderers use this to forward logs to main; see
+   * shared/logForwarder.ts.
+   */
+  static setSink(sink: ((entry: LogEntry) => void) | undefined) {
+    Logger.sink = sink;
+  }
+
   scope(extra: string) {
     const ctx = this.context ? `${this.context}:${extra}` : extra;
-    return new Logger(ctx);
+    return new Logger(ctx, this.meta);
+  }
+
+  /** Same context, with extra metadata bound to every entry. */
+  with(meta: LogMeta) {
+    return new Logger(this.context, { ...this.meta, ...meta });
   }
 
   private prefix(message: any) {
     return this.context ? `[${this.context}] ${message}` : message;
   }
 
-  info(message: any, ...args: any[])   { log.info(this.prefix(message), ...args); }
-  warn(message: any, ...args: any[])   { log.warn(this.prefix(message), ...args); }
-  error(message: any, ...args: any[])  { log.error(this.prefix(message), ...args); }
-  debug(message: any, ...args: any[])  { log.debug(this.prefix(message), ...args); }
-  verbose(message: any, ...args: any[]){ log.verbose(this.prefix(message), ...args); }
-  silly(message: any, ...args: any[])  { log.silly(this.prefix(message), ...args); }
+  private entry(level: LogLevel, message: any, args: any[]): LogEntry {
+    const entry: LogEntry = {
+      ts: new Date().toISOString(),
+      level,
+      process: isRenderer ? "renderer" : "main",
+      windowId: Logger.windowId,
+      context: this.context,
+      ...Logger.metaProvider?.(),
+      ...this.meta,
+      message: typeof message === "string" ? message : JSON.stringify(serializeLogArg(message)),
+    };
+    if (args.length) entry.args = args.map((a) => serializeLogArg(a));
+    return entry;
+  }
+
+  private write(level: LogLevel, message: any, args: any[]) {
+    Logger.ensureConfigured();
+    const entry = Logger.format === "json" || Logger.sink ? this.entry(level, message, args) : undefined;
+    if (Logger.format === "json") log[level](JSON.stringify(entry));
+    else log[level](this.prefix(message), ...args);
+    if (entry) Logger.sink?.(entry);
+  }
+
+  info(message: any, ...args: any[])   { this.write("info", message, args); }
+  warn(message: any, ...args: any[])   { this.write("warn", message, args); }
+  error(message: any, ...args: any[])  { this.write("error", message, args); }
+  debug(message: any, ...args: any[])  { this.write("debug", message, args); }
+  verbose(message: any, ...args: any[]){ this.write("verbose", message, args); }
+  silly(message: any, ...args: any[])  { this.write("silly", message, args); }
 }
 
 export default Logger;
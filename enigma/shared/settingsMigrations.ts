@@ -0,0 +1,94 @@
+// shared/settingsMigrations.ts
+import type { z } from 'zod';
+import { Settings, SettingsSchema } from './settingsSchema';
+
+type RawSettings = Record<string, unknown>;
+
+export interface SettingsMigration {
+  /** Schema version the data is at after this step runs. */
+  version: number;
+  description: string;
+  migrate(data: RawSettings): RawSettings;
+}
+
+/**
+ * Ordered migration steps. Append new steps with the next version number;
+ * never edit or reorder a step that has shipped. Data written before
+ * versioning existed is treated as version 0.
+ */
+export const settingsMigrations: SettingsMigration[] = [
+  {
+    version: 1,
+    description: 'Ensure a theme is set',
+    migrate: (data) => ({ theme: 'dark', ...data }),
+  },
+];
+
+export const SETTINGS_SCHEMA_VERSION = settingsMigrations[settingsMigrations.length - 1].version;
+
+/** Key the schema version is stored under, alongside the settings themselves. */
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export interface MigrationReport {
+  settings: Settings;
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the steps that ran, in order. */
+  applied: string[];
+  /** Fields whose stored value was invalid and fell back to the default. */
+  resetFields: string[];
+  /**
+   * Keys present in the data but unknown to `SettingsSchema`. Left out of
+   * `settings`; main/settingsService.ts keeps them when the data is newer.
+   */
+  droppedKeys: string[];
+}
+
+export function readSchemaVersion(raw: RawSettings): number {
+  const v = raw[SCHEMA_VERSION_KEY];
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0 ? v : 0;
+}
+
+/**
+ * Validate field by field so one bad key only resets itself. Each invalid
+ * field falls back to its schema default, or is dropped if it has none.
+ */
+export function recoverSettings(raw: RawSettings): Pick<MigrationReport, 'settings' | 'resetFields' | 'droppedKeys'> {
+  const shape: Record<string, z.ZodType> = SettingsSchema.shape;
+  const out: RawSettings = {};
+  const resetFields: string[] = [];
+
+  for (const [key, field] of Object.entries(shape)) {
+    const parsed = field.safeParse(raw[key]);
+    if (parsed.success) {
+      if (parsed.data !== undefined) out[key] = parsed.data;
+      continue;
+    }
+    resetFields.push(key);
+    const fallback = field.safeParse(undefined);
+    if (fallback.success && fallback.data !== undefined) out[key] = fallback.data;
+  }
+
+  const droppedKeys = Object.keys(raw).filter((k) => k !== SCHEMA_VERSION_KEY && !(k in shape));
+  return { settings: SettingsSchema.parse(out), resetFields, droppedKeys };
+}
+
+/** Run every step newer than the data's version, then recover per field. */
+export function migrateSettings(raw: RawSettings): MigrationReport {
+  const fromVersion = readSchemaVersion(raw);
+  const applied: string[] = [];
+  let data: RawSettings = { ...raw };
+
+  for (const step of settingsMigrations) {
+    if (step.version <= fromVersion) continue;
+    data = step.migrate(data);
+    applied.push(`v${step.version}: ${step.description}`);
+  }
+
+  return {
+    ...recoverSettings(data),
+    fromVersion,
+    toVersion: Math.max(fromVersion, SETTINGS_SCHEMA_VERSION),
+    applied,
+  };
+}
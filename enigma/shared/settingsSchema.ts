@@ -1,9 +1,113 @@
 // shared/settingsSchema.ts
 import { z } from 'zod';
 
+/**
+ * Per-field UI metadata, attached with `.meta()` and read by the settings
+ * window to label fields. `sensitive` fields are redacted from diagnostic
+ * bundles.
+ */
+export interface SettingMeta {
+  title?: string;
+  description?: string;
+  sensitive?: boolean;
+}
+
+export const ThemeSchema = z.enum(['light', 'dark', 'system']);
+export const UpdateChannelSchema = z.enum(['stable', 'beta']);
+
 export const SettingsSchema = z.object({
-  theme: z.enum(['light', 'dark']).default('dark'),
+  theme: ThemeSchema.default('dark').meta({
+    title: 'Theme',
+    description: 'Colour scheme used by every window. "System" follows the OS setting.',
+  } satisfies SettingMeta),
+  restoreSession: z.boolean().default(false).meta({
+    title: 'Restore windows',
+    description: 'Reopen the windows that were open when the app last quit.',
+  } satisfies SettingMeta),
+  trayMode: z.boolean().default(false).meta({
+    title: 'Run in tray',
+    description: 'Keep running with a tray icon when the last window is closed.',
+  } satisfies SettingMeta),
+  startMinimized: z.boolean().default(false).meta({
+    title: 'Start minimized',
+    description: 'Open windows minimized at launch; with "Run in tray", start in the tray instead.',
+  } satisfies SettingMeta),
+  updateChannel: UpdateChannelSchema.default('stable').meta({
+    title: 'Update channel',
+    description: 'Beta releases arrive earlier but may be less stable.',
+  } satisfies SettingMeta),
+  /**
+   * Command id -> accelerator overriding the command's default; "" unbinds.
+   * Changed through the keybinding channel, which checks for conflicts.
+   */
+  keybindings: z.record(z.string(), z.string().max(60)).default({}),
   lastOpenedAt: z.number().optional(),
 });
 
+/**
+ * App-managed keys: neither shown in the form nor accepted from renderers.
+ * A list rather than field metadata so the types below can follow it.
+ */
+const HIDDEN_SETTING_KEYS = ['keybindings', 'lastOpenedAt'] as const satisfies readonly (keyof typeof SettingsSchema.shape)[];
+
 export type Settings = z.infer<typeof SettingsSchema>;
+export type UpdateChannel = z.infer<typeof UpdateChannelSchema>;
+
+export function settingMeta(field: z.ZodType): SettingMeta {
+  return (field.meta() ?? {}) as SettingMeta;
+}
+
+/** Strip the outer `.default()`/`.optional()` wrappers to reach the value schema. */
+export function unwrapSetting(field: z.ZodType): z.ZodType {
+  let inner: z.ZodType = field;
+  while (inner instanceof z.ZodDefault || inner instanceof z.ZodOptional) {
+    inner = inner.unwrap() as z.ZodType;
+  }
+  return inner;
+}
+
+export type EditableSettingKey = Exclude<keyof Settings, (typeof HIDDEN_SETTING_KEYS)[number]>;
+
+/** Keys a renderer may change, in declaration order. */
+export const editableSettingKeys = (Object.keys(SettingsSchema.shape) as (keyof Settings)[]).filter(
+  (key): key is EditableSettingKey => !(HIDDEN_SETTING_KEYS as readonly string[]).includes(key)
+);
+
+/** Keys flagged `sensitive`, never written to diagnostic bundles. */
+export const sensitiveSettingKeys = (Object.keys(SettingsSchema.shape) as (keyof Settings)[]).filter(
+  (key) => settingMeta(SettingsSchema.shape[key]).sensitive
+);
+
+/** Type-level `unwrapSetting`. */
+type UnwrappedSetting<T> = T extends z.ZodDefault<infer U extends z.ZodType>
+  ? UnwrappedSetting<U>
+  : T extends z.ZodOptional<infer U extends z.ZodType>
+    ? UnwrappedSetting<U>
+    : T;
+
+type SettingsPatchShape = {
+  [K in EditableSettingKey]: z.ZodOptional<UnwrappedSetting<(typeof SettingsSchema.shape)[K]>>;
+};
+
+/**
+ * Partial update accepted from renderers, derived from `SettingsSchema`.
+ * Unlike `SettingsSchema.partial()`, no defaults are filled in, so omitted
+ * keys leave stored values untouched.
+ */
+export const SettingsPatchSchema = z.strictObject(
+  Object.fromEntries(
+    editableSettingKeys.map((key) => [key, unwrapSetting(SettingsSchema.shape[key]).optional()])
+  ) as SettingsPatchShape
+);
+
+/** User-facing profile name, e.g. "work", "lab", "demo". */
+export const ProfileNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(40)
+  .regex(/^[\w .-]+$/, 'Use letters, digits, spaces, ".", "_" or "-"');
+
+export type Theme = z.infer<typeof ThemeSchema>;
+export type SettingsPatch = z.infer<typeof SettingsPatchSchema>;
+export type ProfileName = z.infer<typeof ProfileNameSchema>;
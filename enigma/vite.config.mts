@@ -2,8 +2,10 @@
 import { defineConfig } from 'vite';
 import electron from 'vite-plugin-electron';
 import renderer from 'vite-plugin-electron-renderer';
+import { existsSync, readdirSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { builtinModules } from 'node:module';
+import { securityHeaders } from './shared/contentSecurity';
 
 // Externalize ONLY Electron and Node built-ins (not userland deps).
 // We DO NOT externalize 'electron-better-ipc' or 'electron-store' so preload can load them when sandbox is off.
@@ -18,21 +20,37 @@ const nodeBuiltins = [
 ];
 const externals = [...externalBase, ...nodeBuiltins];
 
+// One bundle per renderer/<name>/index.html; window kinds pick theirs in main/windowKinds.ts.
+const rendererDir = resolve(__dirname, 'renderer');
+const rendererInputs = Object.fromEntries(
+  readdirSync(rendererDir, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && existsSync(resolve(rendererDir, d.name, 'index.html')))
+    .map((d) => [d.name, resolve(rendererDir, d.name, 'index.html')])
+);
+
 export default defineConfig(({ command }) => {
   const isDev = command === 'serve';
   const sharedAlias = { '@shared': resolve(__dirname, 'shared') };
 
   return {
-    root: resolve(__dirname, 'renderer', 'main'),
+    // One page per window: renderer/<name>/index.html -> dist/<name>/index.html
+    root: resolve(__dirname, 'renderer'),
+    // Relative asset URLs so pages under dist/<name>/ also work via loadFile.
+    base: './',
 
     build: {
       outDir: resolve(__dirname, 'dist'),
       emptyOutDir: true,
+      rollupOptions: {
+        input: rendererInputs,
+      },
     },
 
     server: {
       port: 5173,
       strictPort: true,
+      // Same CSP/security headers as app:// in production (main/appProtocol.ts).
+      headers: securityHeaders(),
     },
 
     resolve: {
@@ -84,6 +102,26 @@ export default defineConfig(({ command }) => {
             },
           },
         },
+
+        // LOG VIEWER PRELOAD (sandboxed; must only require 'electron')
+        {
+          entry: resolve(__dirname, 'main', 'logViewerPreload.ts'),
+          vite: {
+            resolve: { alias: sharedAlias },
+            build: {
+              outDir: resolve(__dirname, 'dist-electron'),
+              lib: {
+                entry: resolve(__dirname, 'main', 'logViewerPreload.ts'),
+                formats: ['cjs'],
+                fileName: () => 'logViewerPreload.cjs',
+              },
+              rollupOptions: {
+                external: externals,
+                output: { format: 'cjs' },
+              },
+            },
+          },
+        },
       ]),
       renderer(),
     ],
@@ -0,0 +1,14 @@
+// vitest.config.mts
+import { defineConfig } from 'vitest/config';
+import { resolve } from 'node:path';
+
+// Kept apart from vite.config.mts so tests don't start the Electron builds.
+export default defineConfig({
+  resolve: {
+    alias: { '@shared': resolve(__dirname, 'shared') },
+  },
+  test: {
+    include: ['main/**/*.test.ts', 'shared/**/*.test.ts'],
+    environment: 'node',
+  },
+});